@@ -28,10 +28,10 @@ test('performance benchmark for multi-language linting', async () => {
   const diffText = diffLines.join('\n');
   const concurrency = os.cpus().length * 10;
   // First, verify correctness
-  const code = await runLint({ diffText }, concurrency, true);
-  if (code !== 0) {
-    console.error(`Benchmark lint failed with code ${code}`);
-    process.exit(code);
+  const diagnostics = await runLint({ diffText }, concurrency, true);
+  if (diagnostics.length !== 0) {
+    console.error(`Benchmark lint failed with ${diagnostics.length} findings`);
+    process.exit(1);
   }
   // Measure performance
   const hrStart = process.hrtime();
@@ -14,9 +14,9 @@ test('performance benchmark for scan mode', async () => {
   const parallelism = os.cpus().length * 2;
   // Warm-up: verify no errors
   const warm = await runScan(tmpDir, parallelism, true);
-  if (warm !== 0) {
-    console.error(`Scan setup failed with code ${warm}`);
-    process.exit(warm);
+  if (warm.length !== 0) {
+    console.error(`Scan setup failed with ${warm.length} findings`);
+    process.exit(1);
   }
   // Measure performance
   const hrStart = process.hrtime();
@@ -0,0 +1,206 @@
+// file: src/Baseline.ts
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DiagnosticKind, LintDiagnostic, isDiagnosticKind } from './Diagnostics';
+
+/**
+ * A grandfathered finding recorded in a baseline file.
+ */
+export interface BaselineEntry {
+  /** Stable fingerprint of the finding's file, kind, label and target. */
+  fingerprint: string;
+  /** The kind of finding. */
+  kind: DiagnosticKind;
+  /** The file of the finding, relative to the baseline file's directory, with forward slashes. */
+  file: string;
+  /** The label the finding is about, if any. */
+  label?: string;
+  /** The raw ThenChange target the finding is about, if any. */
+  target?: string;
+  /** Number of findings with this fingerprint that are suppressed. */
+  count: number;
+}
+
+/**
+ * A baseline: the findings that existed when it was written.
+ */
+export interface Baseline {
+  /** Absolute path of the baseline file; entry paths are relative to its directory. */
+  file: string;
+  /** Recorded findings, sorted by file, kind and fingerprint. */
+  entries: BaselineEntry[];
+  /** Text the baseline was loaded from, used to report entries by line. */
+  source?: string;
+}
+
+/**
+ * The result of applying a baseline to a run's findings.
+ */
+export interface BaselineResult {
+  /** Findings not in the baseline, followed by a warning for each stale entry. */
+  diagnostics: LintDiagnostic[];
+  /** Number of findings suppressed by the baseline. */
+  suppressed: number;
+  /** Entries that no longer match as many findings as they record. */
+  stale: BaselineEntry[];
+}
+
+/**
+ * The identifying parts of a finding: everything but line numbers and message text, so
+ * the fingerprint survives edits that move the finding.
+ */
+function identify(d: LintDiagnostic, baseDir: string): Pick<BaselineEntry, 'kind' | 'file' | 'label' | 'target'> {
+  const file = path.relative(baseDir, path.resolve(d.file)).split(path.sep).join('/');
+  const label = d.label ?? d.ifLabel;
+  return { kind: d.kind, file, ...(label !== undefined ? { label } : {}), ...(d.target !== undefined ? { target: d.target } : {}) };
+}
+
+/**
+ * Computes the fingerprint of a finding from its kind, file, label and target.
+ * @param d The finding.
+ * @param baseDir Directory the file path is made relative to (the baseline file's directory).
+ * @returns A 16-digit hex fingerprint.
+ */
+export function fingerprintDiagnostic(d: LintDiagnostic, baseDir: string): string {
+  const { kind, file, label, target } = identify(d, baseDir);
+  return crypto.createHash('sha256').update(JSON.stringify([kind, file, label ?? null, target ?? null])).digest('hex').slice(0, 16);
+}
+
+/**
+ * Records findings as a baseline. Findings sharing a fingerprint become one entry with a count.
+ * @param diagnostics Findings to grandfather.
+ * @param baselineFile Path the baseline will be written to.
+ * @returns The baseline.
+ */
+export function createBaseline(diagnostics: LintDiagnostic[], baselineFile: string): Baseline {
+  const file = path.resolve(baselineFile);
+  const baseDir = path.dirname(file);
+  const entries = new Map<string, BaselineEntry>();
+  for (const d of diagnostics) {
+    const fingerprint = fingerprintDiagnostic(d, baseDir);
+    const entry = entries.get(fingerprint);
+    if (entry) entry.count++;
+    else entries.set(fingerprint, { fingerprint, ...identify(d, baseDir), count: 1 });
+  }
+  const key = (e: BaselineEntry) => `${e.file}\n${e.kind}\n${e.fingerprint}`;
+  return {
+    file,
+    entries: Array.from(entries.values()).sort((a, b) => (key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0))
+  };
+}
+
+/**
+ * Formats a baseline as JSON with one entry per line, so diffs of the file stay readable
+ * and stale entries can be reported by line.
+ * @param baseline The baseline to format.
+ * @returns The file content.
+ */
+export function formatBaseline(baseline: Baseline): string {
+  const entries = baseline.entries.map(e => `    ${JSON.stringify(e)}`);
+  return ['{', '  "version": 1,', `  "entries": [${entries.length ? '' : ']'}`,
+    ...(entries.length ? [entries.join(',\n'), '  ]'] : []), '}', ''].join('\n');
+}
+
+/**
+ * Writes a baseline to its file.
+ * @param baseline The baseline to write.
+ */
+export async function writeBaseline(baseline: Baseline): Promise<void> {
+  await fs.writeFile(baseline.file, formatBaseline(baseline), 'utf-8');
+}
+
+/**
+ * Reads and validates a baseline file.
+ * @param filePath Path of the baseline file.
+ * @returns The baseline.
+ */
+export async function loadBaseline(filePath: string): Promise<Baseline> {
+  const file = path.resolve(filePath);
+  let source: string;
+  let raw: unknown;
+  try {
+    source = await fs.readFile(file, 'utf-8');
+    raw = JSON.parse(source);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Could not read baseline file ${file}: ${message}`);
+  }
+  try {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw new Error('expected a JSON object');
+    }
+    const baseline = raw as Record<string, unknown>;
+    if (baseline.version !== 1) throw new Error(`unsupported version: ${String(baseline.version)}`);
+    if (!Array.isArray(baseline.entries)) throw new Error('entries must be an array');
+    const entries = (baseline.entries as unknown[]).map((e, i) => {
+      if (typeof e !== 'object' || e === null) throw new Error(`entries[${i}] must be an object`);
+      const entry = e as Record<string, unknown>;
+      if (typeof entry.fingerprint !== 'string' || typeof entry.file !== 'string') {
+        throw new Error(`entries[${i}] must have a fingerprint and a file`);
+      }
+      if (typeof entry.kind !== 'string' || !isDiagnosticKind(entry.kind)) {
+        throw new Error(`entries[${i}] has an invalid kind: ${String(entry.kind)}`);
+      }
+      if (entry.count !== undefined && (!Number.isInteger(entry.count) || (entry.count as number) < 1)) {
+        throw new Error(`entries[${i}].count must be a positive integer`);
+      }
+      return { ...entry, count: (entry.count as number | undefined) ?? 1 } as BaselineEntry;
+    });
+    return { file, entries, source };
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Invalid baseline file ${file}: ${message}`);
+  }
+}
+
+/**
+ * Suppresses the findings recorded in a baseline. Each entry suppresses up to `count`
+ * findings with its fingerprint, so new occurrences of a known problem still fail.
+ * Entries that match fewer findings than they record are stale: each is reported as a
+ * `stale-baseline-entry` warning on the baseline file, so the file shrinks over time.
+ * @param diagnostics Findings of the run.
+ * @param baseline The baseline to apply.
+ * @returns The remaining findings, the number suppressed and the stale entries.
+ */
+export function applyBaseline(diagnostics: LintDiagnostic[], baseline: Baseline): BaselineResult {
+  const baseDir = path.dirname(baseline.file);
+  const remaining = new Map<string, number>();
+  for (const e of baseline.entries) remaining.set(e.fingerprint, (remaining.get(e.fingerprint) ?? 0) + e.count);
+  const kept: LintDiagnostic[] = [];
+  let suppressed = 0;
+  for (const d of diagnostics) {
+    const fingerprint = fingerprintDiagnostic(d, baseDir);
+    const left = remaining.get(fingerprint) ?? 0;
+    if (left > 0) {
+      remaining.set(fingerprint, left - 1);
+      suppressed++;
+    } else {
+      kept.push(d);
+    }
+  }
+  const lines = baseline.source?.split(/\r?\n/) ?? [];
+  const relativeFile = path.relative(process.cwd(), baseline.file) || baseline.file;
+  const stale: BaselineEntry[] = [];
+  for (const e of baseline.entries) {
+    // Entries sharing a fingerprint use up the unmatched count in file order
+    const unmatched = Math.min(remaining.get(e.fingerprint) ?? 0, e.count);
+    if (unmatched === 0) continue;
+    remaining.set(e.fingerprint, remaining.get(e.fingerprint)! - unmatched);
+    stale.push(e);
+    const line = lines.findIndex(l => l.includes(e.fingerprint)) + 1;
+    const what = [e.label && `label '${e.label}'`, e.target && `target '${e.target}'`].filter(Boolean).join(', ');
+    const matches = unmatched === e.count ? 'no longer matches a finding' : `matches ${e.count - unmatched} of ${e.count} findings`;
+    kept.push({
+      kind: 'stale-baseline-entry',
+      file: relativeFile,
+      line: line > 0 ? line : 1,
+      ...(e.label !== undefined ? { label: e.label } : {}),
+      ...(e.target !== undefined ? { target: e.target } : {}),
+      severity: 'warning',
+      message: `baseline entry ${e.fingerprint} (${e.kind} in ${e.file}${what ? `, ${what}` : ''}) ` +
+        `${matches}; update the baseline`
+    });
+  }
+  return { diagnostics: kept, suppressed, stale };
+}
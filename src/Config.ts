@@ -0,0 +1,213 @@
+// file: src/Config.ts
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DiagnosticKind, LintDiagnostic, Severity, isDiagnosticKind } from './Diagnostics';
+import { OutputFormat, isOutputFormat } from './Reporter';
+import { createIgnoreMatcher } from './Ignore';
+import { DirectiveDialect, isDirectiveDialect } from './DirectiveParser';
+
+/**
+ * Config file names, in the order they are looked for in each directory.
+ */
+export const CONFIG_FILE_NAMES = ['.iftttlintrc', 'ifttt-lint.config.json'] as const;
+
+/**
+ * A configured severity: a diagnostic severity, or `off` to drop the finding.
+ */
+export type SeverityLevel = Severity | 'off';
+
+/**
+ * Severity overrides keyed by finding type; `*` applies to every type not listed.
+ */
+export type SeverityOverrides = Partial<Record<DiagnosticKind | '*', SeverityLevel>>;
+
+/**
+ * Settings that apply only to files matching the given globs.
+ */
+export interface PathOverride {
+  /** Patterns with `--ignore` syntax, matched against file paths relative to the repo root. */
+  files: string[];
+  /** Severity overrides for findings in matching files. */
+  severity: SeverityOverrides;
+}
+
+/**
+ * A loaded and validated project configuration.
+ */
+export interface ProjectConfig {
+  /** Absolute path of the config file. */
+  file: string;
+  /** Absolute repo root used for path resolution (defaults to the config file's directory). */
+  root: string;
+  /** Ignore patterns, as accepted by `--ignore`. */
+  ignore: string[];
+  /** Default output format, used when `--format` is not given. */
+  format?: OutputFormat;
+  /** Directive syntax to accept; unset to accept both IFTTT and Chromium forms. */
+  dialect?: DirectiveDialect;
+  /** Ignore whitespace-only and comment-only changes in every IfChange block, as `--semantic` does. */
+  semantic?: boolean;
+  /** Severity overrides per finding type. */
+  severity: SeverityOverrides;
+  /** Per-path overrides; later entries win over earlier ones. */
+  overrides: PathOverride[];
+  /** Number of warnings allowed before the run fails, used when `--max-warnings` is not given. */
+  maxWarnings?: number;
+}
+
+/**
+ * Looks for a config file in `startDir` and each of its parent directories.
+ * @param startDir Directory to start from (defaults to the process cwd).
+ * @returns Absolute path of the nearest config file, or undefined if there is none.
+ */
+export async function findConfigFile(startDir: string = process.cwd()): Promise<string | undefined> {
+  let dir = path.resolve(startDir);
+  for (;;) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = path.join(dir, name);
+      try {
+        if ((await fs.stat(candidate)).isFile()) return candidate;
+      } catch {
+        // Not present in this directory
+      }
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Validates a severity override map from the config file.
+ */
+function parseSeverity(value: unknown, where: string): SeverityOverrides {
+  if (value === undefined) return {};
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${where} must be an object mapping finding types to severities`);
+  }
+  const severity: SeverityOverrides = {};
+  for (const [kind, level] of Object.entries(value)) {
+    if (kind !== '*' && !isDiagnosticKind(kind)) {
+      throw new Error(`${where} has unknown finding type '${kind}'`);
+    }
+    if (level !== 'error' && level !== 'warning' && level !== 'info' && level !== 'off') {
+      throw new Error(`${where}.${kind} must be one of error, warning, info, off`);
+    }
+    severity[kind as DiagnosticKind | '*'] = level;
+  }
+  return severity;
+}
+
+/**
+ * Validates a list of strings from the config file.
+ */
+function parseStringList(value: unknown, where: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+    throw new Error(`${where} must be an array of strings`);
+  }
+  return value as string[];
+}
+
+/**
+ * Reads and validates a config file. Both file names hold JSON.
+ * @param filePath Path of the config file.
+ * @returns The validated configuration.
+ */
+export async function loadConfig(filePath: string): Promise<ProjectConfig> {
+  const file = path.resolve(filePath);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(file, 'utf-8'));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Could not read config file ${file}: ${message}`);
+  }
+  try {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw new Error('expected a JSON object');
+    }
+    const config = raw as Record<string, unknown>;
+    if (config.format !== undefined && (typeof config.format !== 'string' || !isOutputFormat(config.format))) {
+      throw new Error(`invalid format value: ${String(config.format)}`);
+    }
+    if (config.dialect !== undefined && (typeof config.dialect !== 'string' || !isDirectiveDialect(config.dialect))) {
+      throw new Error(`invalid dialect value: ${String(config.dialect)}`);
+    }
+    if (config.root !== undefined && typeof config.root !== 'string') {
+      throw new Error('root must be a string');
+    }
+    if (config.semantic !== undefined && typeof config.semantic !== 'boolean') {
+      throw new Error('semantic must be a boolean');
+    }
+    if (config.maxWarnings !== undefined && (!Number.isInteger(config.maxWarnings) || (config.maxWarnings as number) < 0)) {
+      throw new Error('maxWarnings must be a non-negative integer');
+    }
+    if (config.overrides !== undefined && !Array.isArray(config.overrides)) {
+      throw new Error('overrides must be an array');
+    }
+    const overrides = ((config.overrides ?? []) as unknown[]).map((o, i) => {
+      if (typeof o !== 'object' || o === null) throw new Error(`overrides[${i}] must be an object`);
+      const entry = o as Record<string, unknown>;
+      const files = typeof entry.files === 'string' ? [entry.files] : parseStringList(entry.files, `overrides[${i}].files`);
+      if (files.length === 0) throw new Error(`overrides[${i}].files must name at least one pattern`);
+      return { files, severity: parseSeverity(entry.severity, `overrides[${i}].severity`) };
+    });
+    return {
+      file,
+      root: path.resolve(path.dirname(file), (config.root as string | undefined) ?? '.'),
+      ignore: parseStringList(config.ignore, 'ignore'),
+      format: config.format as OutputFormat | undefined,
+      dialect: config.dialect as DirectiveDialect | undefined,
+      severity: parseSeverity(config.severity, 'severity'),
+      overrides,
+      ...(config.semantic !== undefined ? { semantic: config.semantic as boolean } : {}),
+      ...(config.maxWarnings !== undefined ? { maxWarnings: config.maxWarnings as number } : {})
+    };
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Invalid config file ${file}: ${message}`);
+  }
+}
+
+/**
+ * Discovers and loads the project config by walking up from `startDir`.
+ * @param startDir Directory to start from (defaults to the process cwd).
+ * @returns The configuration, or undefined if no config file exists.
+ */
+export async function loadProjectConfig(startDir: string = process.cwd()): Promise<ProjectConfig | undefined> {
+  const file = await findConfigFile(startDir);
+  return file ? loadConfig(file) : undefined;
+}
+
+/**
+ * Looks up the configured severity for a finding type in an override map.
+ */
+function lookupSeverity(severity: SeverityOverrides, kind: DiagnosticKind): SeverityLevel | undefined {
+  return severity[kind] ?? severity['*'];
+}
+
+/**
+ * Applies severity overrides to diagnostics: per-path overrides win over the global
+ * `severity` map, and findings configured as `off` are dropped. Findings about optional
+ * targets are never raised above a warning.
+ * @param diagnostics Findings from a lint or scan run.
+ * @param config The project configuration.
+ * @returns The diagnostics with configured severities.
+ */
+export function applyConfig(diagnostics: LintDiagnostic[], config: ProjectConfig): LintDiagnostic[] {
+  const result: LintDiagnostic[] = [];
+  const matchers = config.overrides.map(o => createIgnoreMatcher(o.files, config.root));
+  for (const d of diagnostics) {
+    let level = lookupSeverity(config.severity, d.kind);
+    for (const [i, o] of config.overrides.entries()) {
+      if (!matchers[i].ignores(d.file)) continue;
+      level = lookupSeverity(o.severity, d.kind) ?? level;
+    }
+    if (level === 'off') continue;
+    // Optional targets are advisory: a configured error stays a warning for them
+    if (level === 'error' && d.optional) level = 'warning';
+    result.push(level ? { ...d, severity: level } : d);
+  }
+  return result;
+}
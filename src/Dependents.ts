@@ -0,0 +1,117 @@
+// file: src/Dependents.ts
+import * as path from 'path';
+import { FileDirectives } from './Graph';
+import { resolveTargetPath } from './LintEngine';
+import { IfChangeDirective, ThenChangeDirective } from './LintPrimitives';
+
+/**
+ * What to look up: a file, or a label within it.
+ */
+export interface DependentsQuery {
+  /** The file whose dependents to find (relative to the cwd, or absolute). */
+  file: string;
+  /** Optional label: only ThenChange targets naming this label match. */
+  label?: string;
+}
+
+/**
+ * A ThenChange directive whose target is the queried file or label.
+ */
+export interface Dependent {
+  /** The file containing the ThenChange directive. */
+  file: string;
+  /** Line of the ThenChange directive. */
+  line: number;
+  /** Line of the IfChange directive the ThenChange closes (absent for orphan ThenChanges). */
+  ifLine?: number;
+  /** Optional label of that IfChange directive. */
+  ifLabel?: string;
+  /** The raw ThenChange target, as written in the directive. */
+  target: string;
+  /** The target resolved to a file path. */
+  targetPath: string;
+  /** Optional target label. */
+  label?: string;
+}
+
+/**
+ * Parses a dependents query of the form `file` or `file#label`.
+ * @param spec The query as given on the command line.
+ * @returns The parsed query.
+ */
+export function parseDependentsQuery(spec: string): DependentsQuery {
+  const hash = spec.lastIndexOf('#');
+  return hash > 0 ? { file: spec.slice(0, hash), label: spec.slice(hash + 1) } : { file: spec };
+}
+
+/**
+ * Finds the ThenChange directives whose resolved target is the queried file, or its label.
+ * A query without a label matches every target in the file, labeled or not.
+ * @param files Parsed directives of the files to search.
+ * @param query The file or label to look up.
+ * @param root Repository root for `//path` targets (defaults to the cwd).
+ * @returns The matching directives, ordered by file and line.
+ */
+export function findDependents(
+  files: FileDirectives[],
+  query: DependentsQuery,
+  root: string = process.cwd()
+): Dependent[] {
+  const queried = path.resolve(query.file);
+  const dependents: Dependent[] = [];
+  for (const { file, directives } of files) {
+    let currentIf: IfChangeDirective | null = null;
+    // Line of the ThenChange closing currentIf; a target list yields one directive per target on it
+    let closingLine: number | null = null;
+    for (const d of directives) {
+      if (closingLine !== null && d.line !== closingLine) {
+        currentIf = null;
+        closingLine = null;
+      }
+      if (d.kind === 'IfChange') {
+        currentIf = d as IfChangeDirective;
+      } else if (d.kind === 'ThenChange') {
+        if (currentIf) closingLine = d.line;
+        const target = (d as ThenChangeDirective).target;
+        const [targetName, label] = target.split('#');
+        const targetPath = resolveTargetPath(file, targetName, root);
+        if (path.resolve(targetPath) !== queried) continue;
+        if (query.label !== undefined && label !== query.label) continue;
+        dependents.push({
+          file,
+          line: d.line,
+          ...(currentIf ? { ifLine: currentIf.line } : {}),
+          ...(currentIf?.label ? { ifLabel: currentIf.label } : {}),
+          target,
+          targetPath,
+          ...(label ? { label } : {})
+        });
+      }
+    }
+  }
+  return dependents.sort((a, b) => (a.file < b.file ? -1 : a.file > b.file ? 1 : a.line - b.line));
+}
+
+/**
+ * Formats dependents as text, one `[dependents] file#label:line -> ThenChange 'target'` line each.
+ * @param dependents Entries from findDependents.
+ * @returns The text, or a note that nothing depends on the query.
+ */
+export function formatDependentsText(dependents: Dependent[]): string {
+  if (dependents.length === 0) return 'No ThenChange directives reference this target.';
+  return dependents.map(d => {
+    const source = d.ifLine === undefined ? `${d.file}:${d.line}`
+      : d.ifLabel ? `${d.file}#${d.ifLabel}:${d.ifLine}` : `${d.file}:${d.ifLine}`;
+    return `[dependents] ${source} -> ThenChange '${d.target}' (line ${d.line})`;
+  }).join('\n');
+}
+
+/**
+ * Formats dependents as a JSON document with the query and the matching directives.
+ * @param query The query the entries answer.
+ * @param dependents Entries from findDependents.
+ * @returns Pretty-printed JSON text.
+ */
+export function formatDependentsJson(query: DependentsQuery, dependents: Dependent[]): string {
+  return JSON.stringify({ query, dependents }, null, 2);
+}
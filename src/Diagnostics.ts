@@ -0,0 +1,215 @@
+// file: src/Diagnostics.ts
+/**
+ * The kinds of findings reported by the lint engine and directive validators.
+ */
+export type DiagnosticKind =
+  /** ThenChange directive without a preceding IfChange. */
+  | 'orphan-then-change'
+  /** IfChange directive without a following ThenChange. */
+  | 'missing-then-change'
+  /** IfChange block changed but its ThenChange target did not. */
+  | 'target-not-changed'
+  /** ThenChange references a label that does not exist in the target file. */
+  | 'label-not-found'
+  /** ThenChange references a target file that does not exist. */
+  | 'target-not-found'
+  /** Two directives in the same file share a label name. */
+  | 'duplicate-label'
+  /** A LINT directive could not be parsed. */
+  | 'malformed-directive'
+  /** ThenChange references a path that was renamed in the change. */
+  | 'renamed-target'
+  /** An IfChange block was deleted (with its file) but its ThenChange targets did not change. */
+  | 'if-change-deleted'
+  /** ThenChange references a file that was deleted in the change. */
+  | 'target-deleted'
+  /** A Label without a matching EndLabel, or an EndLabel without an open Label. */
+  | 'unbalanced-label'
+  /** An IfChange opened while another IfChange is still waiting for its ThenChange. */
+  | 'nested-if-change'
+  /** A Label region and an IfChange block overlap instead of nesting. */
+  | 'label-crosses-block'
+  /** A baseline entry no longer matches any finding. */
+  | 'stale-baseline-entry'
+  /** A LINT.NoCheck pragma suppresses a ThenChange without giving a reason. */
+  | 'no-check-without-reason';
+
+/**
+ * How serious a finding is: errors fail the run, warnings are reported only (up to
+ * `--max-warnings`), and informational findings record problems that were deliberately accepted.
+ */
+export type Severity = 'error' | 'warning' | 'info';
+
+/**
+ * The default severity of every diagnostic kind; a record so the compiler flags kinds
+ * missing from the list. Config `severity` maps override these per kind and per path.
+ */
+const DEFAULT_SEVERITIES: Record<DiagnosticKind, Severity> = {
+  'orphan-then-change': 'error',
+  'missing-then-change': 'error',
+  'target-not-changed': 'error',
+  'label-not-found': 'error',
+  'target-not-found': 'error',
+  'duplicate-label': 'error',
+  'malformed-directive': 'error',
+  'renamed-target': 'warning',
+  'if-change-deleted': 'error',
+  'target-deleted': 'error',
+  'unbalanced-label': 'error',
+  'nested-if-change': 'error',
+  'label-crosses-block': 'error',
+  'stale-baseline-entry': 'warning',
+  'no-check-without-reason': 'error'
+};
+
+/**
+ * Checks whether a string names a diagnostic kind.
+ * @param value Candidate kind, e.g. from a config file.
+ */
+export function isDiagnosticKind(value: string): value is DiagnosticKind {
+  return Object.prototype.hasOwnProperty.call(DEFAULT_SEVERITIES, value);
+}
+
+/**
+ * Returns the default severity of a diagnostic kind.
+ * @param kind The diagnostic kind.
+ */
+export function defaultSeverity(kind: DiagnosticKind): Severity {
+  return DEFAULT_SEVERITIES[kind];
+}
+
+/**
+ * A single finding produced while linting a diff or scanning a directory.
+ */
+export interface LintDiagnostic {
+  /** The kind of finding. */
+  kind: DiagnosticKind;
+  /** The source file where the finding was detected. */
+  file: string;
+  /** The 1-based line number in the source file (the IfChange line for pair findings). */
+  line: number;
+  /** Optional label of the IfChange directive the finding relates to. */
+  ifLabel?: string;
+  /** Optional label name the finding is about (duplicate or missing label). */
+  label?: string;
+  /** Optional raw ThenChange target, as written in the directive. */
+  target?: string;
+  /** Optional ThenChange target resolved to a file path. */
+  targetPath?: string;
+  /** Optional 1-based line number of the ThenChange directive. */
+  thenLine?: number;
+  /** Human-readable description of the finding. */
+  message: string;
+  /** Set for findings about an optional ThenChange target, which are at most warnings. */
+  optional?: boolean;
+  /** Optional severity; findings without one have the default severity of their kind. */
+  severity?: Severity;
+  /** Reason given in the change description for accepting the finding (NO_IFTTT). */
+  overrideReason?: string;
+}
+
+/**
+ * A unit of work checked during a run: one IfChange/ThenChange pair in diff mode,
+ * or one scanned file in `--scan` mode.
+ */
+export interface LintCheck {
+  /** The file that was checked. */
+  file: string;
+  /** Line of the IfChange directive (pair checks only). */
+  line?: number;
+  /** Optional label of the IfChange directive (pair checks only). */
+  ifLabel?: string;
+  /** The raw ThenChange target (pair checks only). */
+  target?: string;
+  /** Line of the ThenChange directive (pair checks only). */
+  thenLine?: number;
+}
+
+/**
+ * The complete result of a lint or scan run, as handed to reporters.
+ */
+export interface LintReport {
+  /** Whether the findings come from diff mode or `--scan` mode. */
+  mode: 'diff' | 'scan';
+  /** All findings produced by the run. */
+  diagnostics: LintDiagnostic[];
+  /** The exit code the CLI returns for this run. */
+  exitCode: number;
+  /** Optional list of everything that was checked, including checks that passed. */
+  checks?: LintCheck[];
+}
+
+/**
+ * Orders diagnostics by file, then line, so machine-readable output is stable across runs.
+ * @param diagnostics Findings to sort.
+ * @returns A sorted copy of the diagnostics.
+ */
+export function sortDiagnostics(diagnostics: LintDiagnostic[]): LintDiagnostic[] {
+  return [...diagnostics].sort((a, b) =>
+    a.file < b.file ? -1 : a.file > b.file ? 1 : a.line - b.line
+  );
+}
+
+/**
+ * Formats the location of a diagnostic as `file:line`, or `file#label:line`
+ * when the diagnostic relates to a labeled IfChange directive.
+ * @param d The diagnostic to format.
+ * @returns Location string used in text output.
+ */
+export function formatLocation(d: LintDiagnostic): string {
+  return d.ifLabel ? `${d.file}#${d.ifLabel}:${d.line}` : `${d.file}:${d.line}`;
+}
+
+/**
+ * Returns the severity of a diagnostic, defaulting to the default severity of its kind.
+ * @param d The diagnostic.
+ */
+export function severityOf(d: LintDiagnostic): Severity {
+  return d.severity ?? defaultSeverity(d.kind);
+}
+
+/**
+ * Fills in the severity of diagnostics that have none, so every finding states its level.
+ * @param diagnostics Findings to complete.
+ * @returns The findings, each with an explicit severity.
+ */
+export function withSeverity(diagnostics: LintDiagnostic[]): LintDiagnostic[] {
+  return diagnostics.map(d => (d.severity ? d : { ...d, severity: defaultSeverity(d.kind) }));
+}
+
+/**
+ * Downgrades errors to warnings (the CLI `--warn` mode); warnings and info are unchanged.
+ * @param diagnostics Findings to downgrade.
+ * @returns The findings, with no errors left.
+ */
+export function demoteErrors(diagnostics: LintDiagnostic[]): LintDiagnostic[] {
+  return diagnostics.map(d => (severityOf(d) === 'error' ? { ...d, severity: 'warning' } : d));
+}
+
+/**
+ * CLI exit codes: findings of different severities fail the run with different codes, so
+ * CI can tell errors from a warning budget being exceeded.
+ */
+export const EXIT_CODES = {
+  /** No errors, and no more warnings than allowed. */
+  success: 0,
+  /** At least one error was reported. */
+  errors: 1,
+  /** The run failed, e.g. on missing input or an invalid option. */
+  fatal: 2,
+  /** No errors, but more warnings than `--max-warnings` allows. */
+  tooManyWarnings: 3
+} as const;
+
+/**
+ * Computes the CLI exit code for a list of diagnostics.
+ * @param diagnostics Findings produced by a lint or scan run.
+ * @param maxWarnings Number of warnings allowed (unlimited if undefined).
+ * @returns 1 if any errors were reported, 3 if there are more warnings than allowed, otherwise 0
+ *   (info findings never fail the run).
+ */
+export function exitCodeFor(diagnostics: LintDiagnostic[], maxWarnings?: number): number {
+  if (diagnostics.some(d => severityOf(d) === 'error')) return EXIT_CODES.errors;
+  const warnings = diagnostics.filter(d => severityOf(d) === 'warning').length;
+  return maxWarnings !== undefined && warnings > maxWarnings ? EXIT_CODES.tooManyWarnings : EXIT_CODES.success;
+}
@@ -1,8 +1,45 @@
 // file: src/DiffParser.ts
 // Parses unified diffs via the external parse-diff library (with header sanitization)
 
+/**
+ * A single line inside a diff hunk.
+ */
+export interface DiffLine {
+  /** Whether the line was added, removed, or is unchanged context. */
+  type: 'add' | 'del' | 'context';
+  /** The line text without its diff prefix character. */
+  content: string;
+  /** Line number in the old file (removed and context lines). */
+  oldLine?: number;
+  /** Line number in the new file (added and context lines). */
+  newLine?: number;
+}
+
+/**
+ * A hunk of a unified diff, with its line content retained.
+ */
+export interface DiffHunk {
+  /** First line of the hunk in the old file. */
+  oldStart: number;
+  /** Number of old-file lines covered by the hunk. */
+  oldLines: number;
+  /** First line of the hunk in the new file. */
+  newStart: number;
+  /** Number of new-file lines covered by the hunk. */
+  newLines: number;
+  /** The hunk's lines in diff order. */
+  lines: DiffLine[];
+}
+
+/**
+ * How a file changed in a diff.
+ */
+export type FileStatus = 'added' | 'modified' | 'deleted' | 'renamed' | 'copied';
+
 /**
  * Represents the added and removed line numbers for a file in a diff.
+ * Added lines use new-file line numbers; removed lines use old-file line numbers.
+ * Deleted files are keyed by their old path and have only removed lines.
  */
 export interface FileChanges {
   /** The file path for the changes. */
@@ -11,6 +48,14 @@ export interface FileChanges {
   addedLines: Set<number>;
   /** Set of line numbers that were removed in the diff. */
   removedLines: Set<number>;
+  /** The file's hunks, including line content. */
+  hunks: DiffHunk[];
+  /** How the file changed. */
+  status: FileStatus;
+  /** Previous path of a renamed or copied file. */
+  oldPath?: string;
+  /** True if a renamed or copied file has no content changes. */
+  pureRename?: boolean;
 }
 
 /**
@@ -26,6 +71,129 @@ export interface LineRange {
 // Use external parse-diff library, sanitizing input to avoid header parsing errors
 import parseDiff from 'parse-diff';
 
+/**
+ * Decodes a path as written in a diff: strips surrounding quotes and decodes
+ * C-style octal escapes.
+ */
+function decodeDiffPath(raw: string): string {
+  raw = raw.trim();
+  // Strip surrounding quotes if present
+  if ((raw.startsWith('"') && raw.endsWith('"')) || (raw.startsWith("'") && raw.endsWith("'"))) {
+    raw = raw.slice(1, -1);
+  }
+  // Decode C-style octal escapes (e.g., \360) to actual UTF-8 characters
+  const bytes: number[] = [];
+  let i = 0;
+  while (i < raw.length) {
+    if (raw[i] === '\\') {
+      let j = i + 1;
+      let oct = '';
+      // collect up to 3 octal digits
+      while (j < raw.length && oct.length < 3 && /[0-7]/.test(raw[j])) {
+        oct += raw[j];
+        j++;
+      }
+      if (oct.length > 0) {
+        bytes.push(parseInt(oct, 8));
+        i = j;
+        continue;
+      }
+      // not an octal escape, treat literal '\'
+      bytes.push(raw.charCodeAt(i));
+      i++;
+    } else {
+      // normal character: encode as UTF-8 bytes
+      const buf = Buffer.from(raw[i], 'utf-8');
+      for (const b of buf) bytes.push(b);
+      i++;
+    }
+  }
+  return Buffer.from(bytes).toString('utf-8');
+}
+
+/**
+ * Converts a path from a diff file line to a file path: decodes it and strips a
+ * single-character prefix (e.g., 'a/', 'b/').
+ */
+function normalizeDiffPath(raw: string): string {
+  const decoded = decodeDiffPath(raw);
+  return decoded.length > 1 && decoded[1] === '/' ? decoded.slice(2) : decoded;
+}
+
+/**
+ * Git extended header information (renames and copies) for one file of a diff.
+ */
+interface ExtendedHeader {
+  /** The `diff --git` line starting the file's section, if present. */
+  header?: string;
+  /** Source path of a copy or rename. */
+  from?: string;
+  /** Destination path of a copy or rename. */
+  to?: string;
+  /** Whether the file was copied rather than renamed. */
+  copy: boolean;
+  /** Whether the section has `---`/`+++` file lines (i.e. content changes). */
+  hasFileLines: boolean;
+}
+
+/**
+ * Collects rename and copy metadata from git extended headers, which parse-diff ignores.
+ * A file's section starts at its `diff --git` line, or at its first `rename`/`copy` line
+ * when the diff has no `diff --git` lines.
+ * @param lines - The raw diff lines.
+ * @returns One entry per file with rename or copy metadata.
+ */
+function parseExtendedHeaders(lines: string[]): ExtendedHeader[] {
+  const sections: ExtendedHeader[] = [];
+  let current: ExtendedHeader | null = null;
+  for (const line of lines) {
+    if (line.startsWith('diff ')) {
+      current = { header: line, copy: false, hasFileLines: false };
+      sections.push(current);
+      continue;
+    }
+    const meta = /^(rename|copy) (from|to) (.+)$/.exec(line);
+    if (meta) {
+      if (!current || current.hasFileLines) {
+        current = { copy: false, hasFileLines: false };
+        sections.push(current);
+      }
+      current.copy = meta[1] === 'copy';
+      current[meta[2] as 'from' | 'to'] = decodeDiffPath(meta[3]);
+    } else if (current && /^--- /.test(line)) {
+      current.hasFileLines = true;
+    }
+  }
+  return sections.filter(section => section.from !== undefined && section.to !== undefined);
+}
+
+/**
+ * Finds the old and new file paths of a rename or copy without content changes, whose
+ * only paths are in its `diff --git a/<from> b/<to>` line. The header is split where both
+ * sides end with the repository paths from the `rename`/`copy` lines and share a prefix.
+ * @param section - The file's extended header.
+ * @returns The old and new paths, as parseChangedLines reports them.
+ */
+function pureRenamePaths(section: ExtendedHeader): { oldPath: string; newPath: string } {
+  const from = section.from!;
+  const to = section.to!;
+  const body = section.header?.replace(/^diff --git /, '');
+  if (body) {
+    const toPath = (token: string) => normalizeDiffPath(token.trim().replace(/^(a|b)\//, ''));
+    for (let i = body.indexOf(' '); i !== -1; i = body.indexOf(' ', i + 1)) {
+      const oldPath = toPath(body.slice(0, i));
+      const newPath = toPath(body.slice(i + 1));
+      if (
+        oldPath.endsWith(from) && newPath.endsWith(to) &&
+        oldPath.slice(0, oldPath.length - from.length) === newPath.slice(0, newPath.length - to.length)
+      ) {
+        return { oldPath, newPath };
+      }
+    }
+  }
+  return { oldPath: from, newPath: to };
+}
+
 /**
  * Parses a unified diff text and returns a map from file paths to their changes.
  * Filters out 'diff ' header lines to avoid internal parsing errors in parse-diff.
@@ -40,8 +208,9 @@ import parseDiff from 'parse-diff';
  */
 export function parseChangedLines(diffText: string): Map<string, FileChanges> {
   // Sanitize diff input: drop git diff headers and spurious '--- ' or '+++ ' lines not indicating actual file paths
-  const filtered = diffText
-    .split(/\r?\n/)
+  const rawLines = diffText.split(/\r?\n/);
+  const extendedHeaders = parseExtendedHeaders(rawLines);
+  const filtered = rawLines
     .filter(line => {
       // drop main diff header lines
       if (line.startsWith('diff ')) return false;
@@ -55,71 +224,133 @@ export function parseChangedLines(diffText: string): Map<string, FileChanges> {
   const files = parseDiff(filtered);
   const result = new Map<string, FileChanges>();
   for (const file of files) {
-    // Skip deleted files (diff to /dev/null)
-    if (file.to === '/dev/null') {
-      continue;
-    }
     // Determine file path: prefer 'to' unless it's '/dev/null', else use 'from'
-    let raw = file.to && file.to !== '/dev/null' ? file.to : file.from;
+    const raw = file.to && file.to !== '/dev/null' ? file.to : file.from;
     // Skip binary files or files without valid paths
     if (!raw) {
       continue;
     }
-    raw = raw.trim();
-    // Strip surrounding quotes if present
-    if ((raw.startsWith('"') && raw.endsWith('"')) || (raw.startsWith("'") && raw.endsWith("'"))) {
-      raw = raw.slice(1, -1);
+    const filePath = normalizeDiffPath(raw);
+    // A differing source path marks a rename, or a copy if the extended header says so
+    const fromPath = file.from && file.from !== '/dev/null' ? normalizeDiffPath(file.from) : undefined;
+    // Deleted files (diff to /dev/null) are kept under their old path
+    let status: FileStatus = file.to === '/dev/null'
+      ? 'deleted'
+      : file.from === '/dev/null' ? 'added' : 'modified';
+    let oldPath: string | undefined;
+    if (status !== 'deleted' && fromPath !== undefined && fromPath !== filePath) {
+      const copied = extendedHeaders.some(h => h.copy && filePath.endsWith(h.to!) && fromPath.endsWith(h.from!));
+      status = copied ? 'copied' : 'renamed';
+      oldPath = fromPath;
     }
-    // Decode C-style octal escapes (e.g., \360) to actual UTF-8 characters
-    raw = ((): string => {
-      const bytes: number[] = [];
-      let i = 0;
-      while (i < raw.length) {
-        if (raw[i] === '\\') {
-          let j = i + 1;
-          let oct = '';
-          // collect up to 3 octal digits
-          while (j < raw.length && oct.length < 3 && /[0-7]/.test(raw[j])) {
-            oct += raw[j];
-            j++;
-          }
-          if (oct.length > 0) {
-            bytes.push(parseInt(oct, 8));
-            i = j;
-            continue;
-          }
-          // not an octal escape, treat literal '\'
-          bytes.push(raw.charCodeAt(i));
-          i++;
-        } else {
-          // normal character: encode as UTF-8 bytes
-          const buf = Buffer.from(raw[i], 'utf-8');
-          for (const b of buf) bytes.push(b);
-          i++;
-        }
-      }
-      return Buffer.from(bytes).toString('utf-8');
-    })();
-    // Strip single-character prefix (e.g., 'a/', 'b/')
-    const filePath = raw.length > 1 && raw[1] === '/' ? raw.slice(2) : raw;
     const added = new Set<number>();
     const removed = new Set<number>();
+    const hunks: DiffHunk[] = [];
     // Iterate through hunks
     for (const chunk of file.chunks || []) {
       let oldLine = chunk.oldStart;
       let newLine = chunk.newStart;
+      const lines: DiffLine[] = [];
       for (const change of chunk.changes || []) {
+        // "\ No newline at end of file" markers are not lines of either file
+        if (change.content.startsWith('\\')) {
+          continue;
+        }
+        const content = change.content.slice(1);
         if (change.type === 'add') {
+          lines.push({ type: 'add', content, newLine });
           added.add(newLine++);
         } else if (change.type === 'del') {
+          lines.push({ type: 'del', content, oldLine });
           removed.add(oldLine++);
         } else {
+          lines.push({ type: 'context', content, oldLine, newLine });
           oldLine++;
           newLine++;
         }
       }
+      hunks.push({
+        oldStart: chunk.oldStart,
+        oldLines: chunk.oldLines,
+        newStart: chunk.newStart,
+        newLines: chunk.newLines,
+        lines
+      });
     }
-    result.set(filePath, { file: filePath, addedLines: added, removedLines: removed });
+    result.set(filePath, {
+      file: filePath,
+      addedLines: added,
+      removedLines: removed,
+      hunks,
+      status,
+      ...(oldPath !== undefined ? { oldPath, pureRename: false } : {})
+    });
+  }
+  // Renames and copies without content changes have no file lines for parse-diff to see
+  for (const section of extendedHeaders) {
+    if (section.hasFileLines) continue;
+    const { oldPath, newPath } = pureRenamePaths(section);
+    if (result.has(newPath)) continue;
+    result.set(newPath, {
+      file: newPath,
+      addedLines: new Set(),
+      removedLines: new Set(),
+      hunks: [],
+      status: section.copy ? 'copied' : 'renamed',
+      oldPath,
+      pureRename: true
+    });
   }
   return result;
 }
+
+/**
+ * Rebuilds the pre-image of a file by reverse-applying its diff hunks to the post-image.
+ * @param newContent - Current (post-image) file content.
+ * @param hunks - The file's hunks from parseChangedLines.
+ * @returns The reconstructed old file content.
+ */
+export function reconstructOldContent(newContent: string, hunks: DiffHunk[]): string {
+  const newLines = newContent.length > 0 ? newContent.split(/\r?\n/) : [];
+  const oldLines: string[] = [];
+  // Next new-file line (1-based) not yet copied
+  let next = 1;
+  for (const hunk of hunks) {
+    // Lines before the hunk are unchanged; a zero-length side starts after the given line
+    const hunkNewStart = hunk.newLines === 0 ? hunk.newStart + 1 : hunk.newStart;
+    while (next < hunkNewStart && next <= newLines.length) {
+      oldLines.push(newLines[next - 1]);
+      next++;
+    }
+    for (const line of hunk.lines) {
+      if (line.type !== 'add') oldLines.push(line.content);
+    }
+    next = hunkNewStart + hunk.newLines;
+  }
+  while (next <= newLines.length) {
+    oldLines.push(newLines[next - 1]);
+    next++;
+  }
+  return oldLines.join('\n');
+}
+
+/**
+ * Maps a new-file line number to the corresponding old-file line number.
+ * @param hunks - The file's hunks from parseChangedLines.
+ * @param newLine - 1-based line number in the new file.
+ * @returns The old-file line number, or undefined if the line was added in the diff.
+ */
+export function mapNewLineToOld(hunks: DiffHunk[], newLine: number): number | undefined {
+  let offset = 0;
+  for (const hunk of hunks) {
+    const hunkNewStart = hunk.newLines === 0 ? hunk.newStart + 1 : hunk.newStart;
+    if (newLine < hunkNewStart) break;
+    if (newLine < hunkNewStart + hunk.newLines) {
+      const line = hunk.lines.find(l => l.newLine === newLine);
+      return line && line.type === 'context' ? line.oldLine : undefined;
+    }
+    offset = (hunk.oldLines === 0 ? hunk.oldStart + 1 : hunk.oldStart) + hunk.oldLines
+      - (hunkNewStart + hunk.newLines);
+  }
+  return newLine + offset;
+}
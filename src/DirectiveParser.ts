@@ -8,16 +8,137 @@ import {
   IfChangeDirective,
   ThenChangeDirective,
   LabelDirective,
-  EndLabelDirective
+  EndLabelDirective,
+  NoCheckPragma
 } from './LintPrimitives';
 
-// Matches LINT.IfChange('label') or LINT.IfChange("label"), with optional whitespace
-const ifChangeWithLabelRegex = /LINT\.IfChange\s*\(\s*['"]([^'"]+)['"]\s*\)/;
+// Matches LINT.IfChange('label') or LINT.IfChange("label"), with optional whitespace and `, semantic`
+const ifChangeWithLabelRegex = /LINT\.IfChange\s*\(\s*['"]([^'"]+)['"]\s*(?:,\s*(semantic)\s*)?\)/;
+// Matches LINT.IfChange(semantic): an unlabeled semantic block in every dialect
+const ifChangeSemanticRegex = /LINT\.IfChange\s*\(\s*semantic\s*\)/;
 // Matches bare LINT.IfChange (no arguments), skipping labeled variants
 const ifChangeRegex = /LINT\.IfChange\b(?!\s*\()/;
 const thenChangeRegex = /LINT\.ThenChange\(['"]([^'"]+)['"]\)/;
 const labelRegex = /LINT\.Label\(['"]([^'"]+)['"]\)/;
 const endLabelRegex = /LINT\.EndLabel/;
+// Matches LINT.NoCheck, LINT.NoCheck() or LINT.NoCheck('reason'), alone on its line
+const noCheckRegex = /^\s*LINT\.NoCheck\s*(?:\(\s*(?:['"]([^'"]*)['"])?\s*\))?\s*$/;
+// Chromium/Google forms: LINT.IfChange(label) and LINT.ThenChange(//a/b.h:label, c.h), unquoted
+const compatIfChangeRegex = /LINT\.IfChange\s*\(\s*([\w.-]+)\s*(?:,\s*(semantic)\s*)?\)/;
+const compatThenChangeRegex = /LINT\.ThenChange\s*\(([^()'"[\]]*)\)/;
+
+/**
+ * Directive syntaxes accepted by the parser.
+ */
+export const DIRECTIVE_DIALECTS = ['ifttt', 'chromium', 'auto'] as const;
+
+/**
+ * A directive syntax: `ifttt` accepts quoted labels and targets with `#label`, `chromium`
+ * accepts the unquoted Chromium/Google forms with `:label`, and `auto` accepts both.
+ */
+export type DirectiveDialect = typeof DIRECTIVE_DIALECTS[number];
+
+/**
+ * Checks whether a string names a directive dialect.
+ * @param value Candidate dialect name, e.g. from a config file.
+ * @returns True if the value is one of DIRECTIVE_DIALECTS.
+ */
+export function isDirectiveDialect(value: string): value is DirectiveDialect {
+  return (DIRECTIVE_DIALECTS as readonly string[]).includes(value);
+}
+
+/**
+ * Parses the arguments of a Chromium-style ThenChange, e.g. `//a/b.h:label, c.h`, into
+ * targets with `#label`; a leading `:label` refers to a label in the same file, and a
+ * trailing `optional` marks the targets as advisory.
+ * @returns The targets, or undefined if `text` holds no Chromium-style ThenChange.
+ */
+function parseCompatThenChange(text: string): { targets: string[]; optional: boolean } | undefined {
+  const m = compatThenChangeRegex.exec(text);
+  if (!m) return undefined;
+  const items = m[1]
+    .split(',')
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+  const optional = items.length > 1 && items[items.length - 1] === 'optional';
+  if (optional) items.pop();
+  return {
+    targets: items.map(item => {
+      const colon = item.lastIndexOf(':');
+      return colon === -1 ? item : `${item.slice(0, colon)}#${item.slice(colon + 1)}`;
+    }),
+    optional
+  };
+}
+
+/**
+ * A comment found by the comment extractor.
+ */
+interface ExtractedComment {
+  /** First line of the comment. */
+  begin?: number;
+  /** Last line of the comment. */
+  end?: number;
+  /** Line of the code following the comment. */
+  codeStart?: number;
+  /** Comment text without comment markers. */
+  content?: string;
+  /** The code following the comment, if on `codeStart`. */
+  code?: string;
+}
+
+/**
+ * Extracts the whole-line comments of a file with the multi-language comment extractor.
+ * The file path selects the comment syntax by extension; unsupported extensions fall back
+ * to Python syntax for Bazel files and JavaScript syntax otherwise.
+ * @returns The comments keyed by starting line, or undefined if none can be extracted.
+ */
+function extractFileComments(content: string, filePath: string): Record<string, ExtractedComment> | undefined {
+  try {
+    return extractComments(content, { filename: filePath });
+  } catch {
+    const ext = path.extname(filePath).toLowerCase();
+    let fallback: string;
+    if (ext === '.bzl') {
+      // Treat Bazel/Starlark files as Python for comment syntax (#)
+      fallback = filePath.replace(/\.bzl$/i, '.py');
+    } else {
+      // Default to JavaScript
+      fallback = filePath.replace(path.extname(filePath), '.js');
+    }
+    try {
+      return extractComments(content, { filename: fallback });
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Removes the comments recognised by the comment extractor from source text, keeping any
+ * code that follows a block comment on its last line. Trailing comments after code are kept,
+ * since the extractor only finds comments that start a line. Lines holding LINT directives
+ * are kept too: editing one changes the block's structure, not only its prose.
+ * @param content Source text, e.g. one side of a diff hunk.
+ * @param filePath Path selecting the comment syntax by extension.
+ * @returns The remaining lines, or all lines if the file's comments cannot be extracted.
+ */
+export function stripComments(content: string, filePath: string): string[] {
+  const lines = content.split(/\r?\n/);
+  const comments = extractFileComments(content, filePath) ?? {};
+  for (const comment of Object.values(comments)) {
+    if (comment.begin === undefined || comment.end === undefined) continue;
+    const directiveLines = new Set<number>();
+    for (let line = comment.begin; line <= comment.end; line++) {
+      if (/\bLINT\./.test(lines[line - 1])) directiveLines.add(line);
+      else lines[line - 1] = '';
+    }
+    if (comment.codeStart === comment.end && comment.code !== undefined && !directiveLines.has(comment.end)) {
+      lines[comment.end - 1] = comment.code;
+    }
+  }
+  return lines;
+}
 
 /**
  * Parses lint directives from comments in the specified file.
@@ -25,7 +146,8 @@ const endLabelRegex = /LINT\.EndLabel/;
  * then scans each comment line for LINT directives.
  */
 export async function parseFileDirectives(
-  filePath: string
+  filePath: string,
+  dialect: DirectiveDialect = 'auto'
 ): Promise<LintDirective[]> {
   let content: string;
   try {
@@ -43,31 +165,26 @@ export async function parseFileDirectives(
     // Propagate other errors (e.g., permission issues)
     throw err;
   }
-  // Use multi-language comment extractor to find all comments in source
-  // Pass filename so extractor can choose comment syntax by extension
-  let commentsMap: Record<string, { content?: string }>;
-  // Try extracting comments by file extension; if unsupported, fall back or warn
-  try {
-    commentsMap = extractComments(content, { filename: filePath });
-  } catch {
-    const ext = path.extname(filePath).toLowerCase();
-    let fallback: string;
-    if (ext === '.bzl') {
-      // Treat Bazel/Starlark files as Python for comment syntax (#)
-      fallback = filePath.replace(/\.bzl$/i, '.py');
-    } else {
-      // Default to JavaScript
-      fallback = filePath.replace(path.extname(filePath), '.js');
-    }
-    try {
-      commentsMap = extractComments(content, { filename: fallback });
-    } catch {
-      // Could not extract comments (e.g., JSON or unsupported extensions): ignore silently
-      return [];
-    }
-  }
+  return parseDirectivesFromContent(content, filePath, dialect);
+}
+
+/**
+ * Parses lint directives from comments in the given file content.
+ * The file path selects the comment syntax (by extension) and is used in error messages;
+ * the file itself is not read, so this works for pre-images and staged content.
+ * The dialect selects which directive syntaxes are accepted.
+ */
+export function parseDirectivesFromContent(
+  content: string,
+  filePath: string,
+  dialect: DirectiveDialect = 'auto'
+): LintDirective[] {
+  const commentsMap = extractFileComments(content, filePath);
+  // Could not extract comments (e.g., JSON or unsupported extensions): ignore silently
+  if (!commentsMap) return [];
   // commentsMap maps starting line numbers (as strings) to comment objects
   const directives: LintDirective[] = [];
+  const noChecks: NoCheckPragma[] = [];
   for (const [beginStr, comment] of Object.entries(commentsMap)) {
     const startLine = Number(beginStr);
     const lines = (comment.content ?? '').split(/\r?\n/);
@@ -89,32 +206,74 @@ export async function parseFileDirectives(
           }
         }
         const directiveContent = directiveLines.join(' ');
-        // Try parsing array literal: LINT.ThenChange([...])
-        const arrayMatch = /\(\s*\[([^\]]*?)\]\s*,?\s*\)/.exec(directiveContent);
-        if (arrayMatch) {
-          const items = arrayMatch[1]
-            .split(',')
-            .map(s => s.trim())
-            .filter(s => s.length > 0);
-          for (const item of items) {
-            const tgt = item.replace(/^['"]|['"]$/g, '');
-            directives.push({ kind: 'ThenChange', line: lineNum, target: tgt } as ThenChangeDirective);
-          }
-        } else {
-          // Fallback to single target literal: LINT.ThenChange('target')
-          const singleMatch = /LINT\.ThenChange\s*\(\s*['"]([^'"]+)['"]\s*\)/.exec(directiveContent);
-          if (singleMatch) {
-            directives.push({ kind: 'ThenChange', line: lineNum, target: singleMatch[1] } as ThenChangeDirective);
+        // Quoted forms: array literal LINT.ThenChange([...]) or single LINT.ThenChange('target'),
+        // either followed by `, optional` for advisory targets
+        let targets: string[] | undefined;
+        let optional = false;
+        if (dialect !== 'chromium') {
+          const arrayMatch = /\(\s*\[([^\]]*?)\]\s*(?:,\s*(optional)\s*)?,?\s*\)/.exec(directiveContent);
+          const singleMatch = /LINT\.ThenChange\s*\(\s*['"]([^'"]+)['"]\s*(?:,\s*(optional)\s*)?\)/.exec(directiveContent);
+          if (arrayMatch) {
+            targets = arrayMatch[1]
+              .split(',')
+              .map(s => s.trim())
+              .filter(s => s.length > 0)
+              .map(item => item.replace(/^['"]|['"]$/g, ''));
+            optional = arrayMatch[2] !== undefined;
+          } else if (singleMatch) {
+            targets = [singleMatch[1]];
+            optional = singleMatch[2] !== undefined;
           }
         }
+        // Unquoted Chromium/Google form: LINT.ThenChange(//a/b.h:label, c.h)
+        if (!targets && dialect !== 'ifttt') {
+          const compat = parseCompatThenChange(directiveContent);
+          targets = compat?.targets;
+          optional = compat?.optional ?? false;
+        }
+        if (!targets) {
+          const expected = dialect === 'chromium' ? 'LINT.ThenChange(//path:label)' : 'LINT.ThenChange("target")';
+          throw new Error(
+            `Malformed LINT.ThenChange directive at ${filePath}:${lineNum}: expected ${expected}, saw '${directiveContent.trim()}'`
+          );
+        }
+        for (const tgt of targets) {
+          directives.push({
+            kind: 'ThenChange',
+            line: lineNum,
+            target: tgt,
+            ...(optional ? { optional } : {})
+          } as ThenChangeDirective);
+        }
         i = j + 1;
         continue;
       }
+      // NoCheck pragmas apply to the ThenChange on the next line
+      if (/^\s*LINT\.NoCheck\b/.test(text)) {
+        const m = noCheckRegex.exec(text);
+        if (!m) {
+          throw new Error(
+            `Malformed LINT.NoCheck directive at ${filePath}:${lineNum}: expected LINT.NoCheck("reason"), saw '${text.trim()}'`
+          );
+        }
+        noChecks.push({ line: lineNum, ...(m[1]?.trim() ? { reason: m[1].trim() } : {}) });
+        i++;
+        continue;
+      }
       // Default: parse any other directives (IfChange, Label, etc.)
-      extractDirectives(text, lineNum, directives, filePath);
+      extractDirectives(text, lineNum, directives, filePath, dialect);
       i++;
     }
   }
+  for (const noCheck of noChecks) {
+    const suppressed = directives.filter(d => d.kind === 'ThenChange' && d.line === noCheck.line + 1);
+    if (suppressed.length === 0) {
+      throw new Error(
+        `Malformed LINT.NoCheck directive at ${filePath}:${noCheck.line}: expected a LINT.ThenChange on the next line`
+      );
+    }
+    for (const d of suppressed) (d as ThenChangeDirective).noCheck = noCheck;
+  }
   return directives;
 }
 
@@ -125,17 +284,24 @@ function extractDirectives(
   text: string,
   lineNum: number,
   out: LintDirective[],
-  filePath: string
+  filePath: string,
+  dialect: DirectiveDialect
 ) {
   let m: RegExpExecArray | null;
   let matched = false;
   // IfChange with optional label
-  if ((m = ifChangeWithLabelRegex.exec(text))) {
+  if (dialect !== 'chromium' && (m = ifChangeWithLabelRegex.exec(text))) {
     matched = true;
-    out.push({ kind: 'IfChange', line: lineNum, label: m[1] } as IfChangeDirective);
+    out.push({ kind: 'IfChange', line: lineNum, label: m[1], ...(m[2] ? { semantic: true } : {}) } as IfChangeDirective);
   } else if (ifChangeRegex.test(text)) {
     matched = true;
     out.push({ kind: 'IfChange', line: lineNum } as IfChangeDirective);
+  } else if (ifChangeSemanticRegex.test(text)) {
+    matched = true;
+    out.push({ kind: 'IfChange', line: lineNum, semantic: true } as IfChangeDirective);
+  } else if (dialect !== 'ifttt' && (m = compatIfChangeRegex.exec(text))) {
+    matched = true;
+    out.push({ kind: 'IfChange', line: lineNum, label: m[1], ...(m[2] ? { semantic: true } : {}) } as IfChangeDirective);
   }
   // ThenChange with list of targets, e.g., LINT.ThenChange(['f1', 'f2#label'])
   let lm: RegExpExecArray | null;
@@ -1,29 +1,34 @@
 // file: src/DirectiveValidator.ts
-import { LintDirective, IfChangeDirective, LabelDirective } from './LintPrimitives';
+import { LintDirective, IfChangeDirective, LabelDirective, ThenChangeDirective } from './LintPrimitives';
+import { LintDiagnostic } from './Diagnostics';
 /**
  * Validates that within a single file, all named directives (IfChange labels and Label names)
  * are unique when considered in a single namespace.
  * @param directives Array of parsed directives from a file.
- * @param filePath Path to the file (used for error messages).
- * @param report Function to call for each validation error message.
- * @returns Number of validation errors found.
+ * @param filePath Path to the file (used in diagnostics).
+ * @returns Diagnostics for each duplicate label found.
  */
 export function validateDirectiveUniqueness(
   directives: LintDirective[],
-  filePath: string,
-  report: (msg: string) => void
-): number {
+  filePath: string
+): LintDiagnostic[] {
   const seen = new Set<string>();
-  let errors = 0;
+  const diagnostics: LintDiagnostic[] = [];
+  const report = (line: number, name: string) => {
+    diagnostics.push({
+      kind: 'duplicate-label',
+      file: filePath,
+      line,
+      label: name,
+      message: `duplicate directive label '${name}'`
+    });
+  };
   for (const d of directives) {
     if (d.kind === 'IfChange') {
       const ic = d as IfChangeDirective;
       if (ic.label) {
         if (seen.has(ic.label)) {
-          report(
-            `[ifttt] ${filePath}:${d.line} -> duplicate directive label '${ic.label}'`
-          );
-          errors++;
+          report(d.line, ic.label);
         } else {
           seen.add(ic.label);
         }
@@ -32,14 +37,42 @@ export function validateDirectiveUniqueness(
       const ld = d as LabelDirective;
       const name = ld.name;
       if (seen.has(name)) {
-        report(
-          `[ifttt] ${filePath}:${d.line} -> duplicate directive label '${name}'`
-        );
-        errors++;
+        report(d.line, name);
       } else {
         seen.add(name);
       }
     }
   }
-  return errors;
-}
\ No newline at end of file
+  return diagnostics;
+}
+
+/**
+ * Validates that every `LINT.NoCheck` pragma in a file gives a reason, so suppressed
+ * checks can be reviewed later.
+ * @param directives Array of parsed directives from a file.
+ * @param filePath Path to the file (used in diagnostics).
+ * @returns Diagnostics for each pragma without a reason.
+ */
+export function validateSuppressions(
+  directives: LintDirective[],
+  filePath: string
+): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const reported = new Set<number>();
+  for (const d of directives) {
+    const noCheck = d.kind === 'ThenChange' ? (d as ThenChangeDirective).noCheck : undefined;
+    // A pragma suppresses every target of its ThenChange; report it once
+    if (!noCheck || noCheck.reason || reported.has(noCheck.line)) continue;
+    reported.add(noCheck.line);
+    diagnostics.push({
+      kind: 'no-check-without-reason',
+      file: filePath,
+      line: noCheck.line,
+      target: (d as ThenChangeDirective).target,
+      thenLine: d.line,
+      message: `LINT.NoCheck suppresses ThenChange '${(d as ThenChangeDirective).target}' (line ${d.line}) ` +
+        'without a reason; write LINT.NoCheck("reason")'
+    });
+  }
+  return diagnostics;
+}
@@ -0,0 +1,137 @@
+// file: src/Git.ts
+import { spawn } from 'child_process';
+import * as path from 'path';
+
+/**
+ * Describes which changes to diff when linting directly from a git repository.
+ */
+export interface GitDiffSpec {
+  /** Base ref; the diff starts at the merge base of this ref and `head`. */
+  base?: string;
+  /** Head ref to compare against the merge base (defaults to HEAD). */
+  head?: string;
+  /** Diff the staged changes (index against HEAD). */
+  staged?: boolean;
+  /** Diff the working tree (staged and unstaged changes) against HEAD. */
+  workingTree?: boolean;
+  /** Directory inside the repository to run git in (defaults to the process cwd). */
+  cwd?: string;
+}
+
+/**
+ * Runs a git command and resolves with its stdout.
+ * @param args Arguments passed to git.
+ * @param cwd Directory to run git in.
+ * @returns Promise resolving to the command's standard output.
+ */
+export async function runGit(args: string[], cwd?: string): Promise<string> {
+  const git = spawn('git', args, { cwd });
+  let stdout = '';
+  let stderr = '';
+  git.stdout.on('data', data => { stdout += data.toString(); });
+  git.stderr.on('data', data => { stderr += data.toString(); });
+  await new Promise<void>((resolve, reject) => {
+    git.on('error', err => reject(err));
+    git.on('close', code => {
+      if (code !== 0) {
+        return reject(new Error(`git ${args.join(' ')} failed with code ${code}: ${stderr.trim()}`));
+      }
+      resolve();
+    });
+  });
+  return stdout;
+}
+
+/**
+ * Returns the absolute path of the top-level directory of the repository containing `cwd`.
+ * @param cwd Directory inside the repository.
+ */
+export async function getRepoRoot(cwd?: string): Promise<string> {
+  return (await runGit(['rev-parse', '--show-toplevel'], cwd)).trim();
+}
+
+/**
+ * Computes the merge base of two refs.
+ * @param base Base ref (e.g. the target branch).
+ * @param head Head ref (e.g. HEAD).
+ * @param cwd Directory inside the repository.
+ * @returns The merge-base commit SHA.
+ */
+export async function getMergeBase(base: string, head: string, cwd?: string): Promise<string> {
+  return (await runGit(['merge-base', base, head], cwd)).trim();
+}
+
+/**
+ * Produces a unified diff for the given spec by shelling out to git.
+ * File paths in the diff are made relative to the process working directory, so that
+ * the lint engine can read the files regardless of where in the repository git runs.
+ * @param spec Which changes to diff.
+ * @returns Promise resolving to the unified diff text.
+ */
+export async function readGitDiff(spec: GitDiffSpec): Promise<string> {
+  const modes = [spec.base !== undefined, !!spec.staged, !!spec.workingTree].filter(Boolean).length;
+  if (modes !== 1) {
+    throw new Error('Exactly one of base, staged or workingTree must be specified for a git diff');
+  }
+  if (spec.head !== undefined && spec.base === undefined) {
+    throw new Error('A head ref requires a base ref');
+  }
+  const root = await getRepoRoot(spec.cwd);
+  const rel = path.relative(process.cwd(), root).split(path.sep).join('/');
+  const prefix = rel ? `${rel}/` : '';
+  const args = ['diff', '--no-color', '--no-ext-diff', `--src-prefix=a/${prefix}`, `--dst-prefix=b/${prefix}`];
+  if (spec.base !== undefined) {
+    const head = spec.head ?? 'HEAD';
+    args.push(await getMergeBase(spec.base, head, spec.cwd), head);
+  } else if (spec.staged) {
+    args.push('--cached');
+  } else {
+    args.push('HEAD');
+  }
+  return runGit(args, spec.cwd);
+}
+
+/**
+ * Returns the revision holding the pre-image of a git diff spec: the merge base for
+ * `base`/`head` diffs, and HEAD for staged or working tree diffs.
+ * @param spec Which changes are diffed.
+ */
+export async function resolveBaseRev(spec: GitDiffSpec): Promise<string> {
+  if (spec.base !== undefined) {
+    return getMergeBase(spec.base, spec.head ?? 'HEAD', spec.cwd);
+  }
+  return 'HEAD';
+}
+
+/**
+ * Reads the change description of a git diff spec: the messages of the commits between
+ * the merge base and the head ref. Staged and working tree changes have no commits yet,
+ * so their description is empty.
+ * @param spec Which changes are diffed.
+ * @returns Promise resolving to the commit messages, newest first.
+ */
+export async function readCommitMessages(spec: GitDiffSpec): Promise<string> {
+  if (spec.base === undefined) return '';
+  const head = spec.head ?? 'HEAD';
+  return runGit(['log', '--format=%B', `${await getMergeBase(spec.base, head, spec.cwd)}..${head}`], spec.cwd);
+}
+
+/**
+ * Reads a file's content at a given revision (`git show <rev>:<path>`).
+ * Git runs in the file's directory, so the path may be relative to the process cwd.
+ * @param rev Revision to read from (commit SHA or ref), or `''` for the staged content in the index.
+ * @param filePath Path of the file in the working tree.
+ * @returns Promise resolving to the file content at that revision.
+ */
+export async function readGitBlob(rev: string, filePath: string): Promise<string> {
+  return runGit(['show', `${rev}:./${path.basename(filePath)}`], path.dirname(filePath));
+}
+
+/**
+ * Returns the directory git runs hooks from: `core.hooksPath` if set, else `.git/hooks`.
+ * @param cwd Directory inside the repository.
+ * @returns Absolute path of the hooks directory.
+ */
+export async function getHooksDir(cwd: string = process.cwd()): Promise<string> {
+  return path.resolve(cwd, (await runGit(['rev-parse', '--git-path', 'hooks'], cwd)).trim());
+}
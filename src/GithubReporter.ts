@@ -0,0 +1,91 @@
+// file: src/GithubReporter.ts
+import * as path from 'path';
+import { LintDiagnostic, LintReport, severityOf, sortDiagnostics } from './Diagnostics';
+
+/**
+ * Escapes annotation message data per the GitHub Actions workflow-command rules.
+ */
+function escapeData(value: string): string {
+  return value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+/**
+ * Escapes annotation property values (file, title), which additionally reserve ':' and ','.
+ */
+function escapeProperty(value: string): string {
+  return escapeData(value).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
+
+/**
+ * GitHub resolves annotation paths against the repository root, so paths (absolute, or
+ * relative to the current working directory) are made relative to it.
+ */
+function annotationPath(file: string, root: string): string {
+  return path.relative(root, path.resolve(file)).split(path.sep).join('/');
+}
+
+/**
+ * Returns the annotation level for a diagnostic: warnings stay warnings, informational
+ * findings become notices, and `--warn` downgrades errors.
+ */
+function annotationLevel(d: LintDiagnostic, warn: boolean): 'error' | 'warning' | 'notice' {
+  const severity = severityOf(d);
+  if (severity === 'info') return 'notice';
+  return warn ? 'warning' : severity;
+}
+
+/**
+ * Formats a single diagnostic as a workflow-command annotation.
+ * @param d The diagnostic to format.
+ * @param warn Emit `::warning` instead of `::error` (the CLI `--warn` mode).
+ * @param root Repository root the annotation path is relative to (defaults to the cwd).
+ * @returns The annotation line.
+ */
+export function formatGithubAnnotation(d: LintDiagnostic, warn: boolean = false, root: string = process.cwd()): string {
+  const command = annotationLevel(d, warn);
+  const props = [
+    `file=${escapeProperty(annotationPath(d.file, root))}`,
+    `line=${d.line}`,
+    `title=${escapeProperty(`ifttt-lint (${d.kind})`)}`
+  ].join(',');
+  return `::${command} ${props}::${escapeData(d.message)}`;
+}
+
+/**
+ * Formats a report as GitHub Actions annotations, one per finding.
+ * @param report The lint or scan result.
+ * @param warn Emit `::warning` instead of `::error` annotations.
+ * @param root Repository root annotation paths are relative to (defaults to the cwd).
+ * @returns Newline-separated annotation lines (empty for clean runs).
+ */
+export function formatGithub(report: LintReport, warn: boolean = false, root: string = process.cwd()): string {
+  return sortDiagnostics(report.diagnostics)
+    .map(d => formatGithubAnnotation(d, warn, root))
+    .join('\n');
+}
+
+/**
+ * Formats a Markdown job summary table for `$GITHUB_STEP_SUMMARY`.
+ * @param report The lint or scan result.
+ * @param warn Label findings as warnings instead of errors.
+ * @param root Repository root locations are relative to (defaults to the cwd).
+ * @returns Markdown text.
+ */
+export function formatGithubSummary(report: LintReport, warn: boolean = false, root: string = process.cwd()): string {
+  const lines = [`### ifttt-lint (${report.mode} mode)`, ''];
+  if (report.diagnostics.length === 0) {
+    lines.push('No IfThisThenThat findings.');
+    return lines.join('\n') + '\n';
+  }
+  const cell = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  lines.push(
+    `${report.diagnostics.length} finding(s), exit code ${report.exitCode}.`,
+    '',
+    '| Level | Location | Rule | Message |',
+    '| --- | --- | --- | --- |'
+  );
+  for (const d of sortDiagnostics(report.diagnostics)) {
+    lines.push(`| ${annotationLevel(d, warn)} | \`${cell(annotationPath(d.file, root))}:${d.line}\` | ${d.kind} | ${cell(d.message)} |`);
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,258 @@
+// file: src/Graph.ts
+import * as path from 'path';
+import { LintDirective, IfChangeDirective, ThenChangeDirective, LabelDirective } from './LintPrimitives';
+import { resolveTargetPath } from './LintEngine';
+
+/**
+ * Output formats accepted by `--graph-format`.
+ */
+export const GRAPH_FORMATS = ['dot', 'mermaid', 'json'] as const;
+
+/**
+ * A graph output format name.
+ */
+export type GraphFormat = typeof GRAPH_FORMATS[number];
+
+/**
+ * Checks whether a string names a supported graph format.
+ * @param value Candidate format name.
+ * @returns True if the value is one of GRAPH_FORMATS.
+ */
+export function isGraphFormat(value: string): value is GraphFormat {
+  return (GRAPH_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * A node of the dependency graph: a file, or a label within a file.
+ */
+export interface GraphNode {
+  /** Node id: the file path relative to the root, with `#label` for label nodes. */
+  id: string;
+  /** Whether the node is a whole file or a labeled region of one. */
+  kind: 'file' | 'label';
+  /** The file path relative to the root, with forward slashes. */
+  file: string;
+  /** The label name (label nodes only). */
+  label?: string;
+}
+
+/**
+ * An edge of the dependency graph: changes to `from` require changes to `to`.
+ */
+export interface GraphEdge {
+  /** Id of the IfChange block's node: its file, or `file#label` for labeled blocks. */
+  from: string;
+  /** Id of the ThenChange target's node. */
+  to: string;
+  /** Line of the ThenChange directive in the `from` file. */
+  line: number;
+}
+
+/**
+ * The IfChange→ThenChange dependency graph of a set of files.
+ */
+export interface DependencyGraph {
+  /** File and label nodes, sorted by id. */
+  nodes: GraphNode[];
+  /** Directive edges, sorted by source, target and line. */
+  edges: GraphEdge[];
+}
+
+/**
+ * The parsed directives of one file.
+ */
+export interface FileDirectives {
+  /** Path of the file, as found by the scan (relative to the cwd, or absolute). */
+  file: string;
+  /** Directives parsed from the file. */
+  directives: LintDirective[];
+}
+
+/**
+ * Converts a path to a node file name: relative to the root, with forward slashes.
+ * @param filePath Path relative to the cwd, or absolute.
+ * @param root Repository root.
+ */
+export function toNodeFile(filePath: string, root: string): string {
+  return path.relative(root, path.resolve(filePath)).split(path.sep).join('/');
+}
+
+/**
+ * Builds the dependency graph of the given files. Every file and every label defined
+ * by a `Label` or labeled `IfChange` becomes a node; each ThenChange target adds an edge
+ * from its IfChange block to the target file or label. Targets outside the scanned files
+ * are added as nodes too, so dangling references stay visible.
+ * @param files Parsed directives per file.
+ * @param root Repository root: node ids are relative to it, and `//path` targets resolve against it.
+ * @returns The graph.
+ */
+export function buildGraph(files: FileDirectives[], root: string): DependencyGraph {
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+  const addNode = (file: string, label?: string): string => {
+    const id = label ? `${file}#${label}` : file;
+    if (!nodes.has(id)) nodes.set(id, { id, kind: label ? 'label' : 'file', file, ...(label ? { label } : {}) });
+    return id;
+  };
+  for (const { file, directives } of files) {
+    const nodeFile = toNodeFile(file, root);
+    addNode(nodeFile);
+    let from: string | null = null;
+    // A ThenChange closes its block, but a target list yields one directive per target on the same line
+    let closingLine: number | null = null;
+    for (const d of directives) {
+      if (closingLine !== null && d.line !== closingLine) {
+        from = null;
+        closingLine = null;
+      }
+      if (d.kind === 'Label') {
+        addNode(nodeFile, (d as LabelDirective).name);
+      } else if (d.kind === 'IfChange') {
+        from = addNode(nodeFile, (d as IfChangeDirective).label);
+      } else if (d.kind === 'ThenChange' && from !== null) {
+        const [targetName, targetLabel] = (d as ThenChangeDirective).target.split('#');
+        const to = addNode(toNodeFile(resolveTargetPath(file, targetName, root), root), targetLabel || undefined);
+        edges.set(`${from}\n${to}\n${d.line}`, { from, to, line: d.line });
+        closingLine = d.line;
+      }
+    }
+  }
+  // Labels belong to their file, so every label's file is a node
+  for (const node of Array.from(nodes.values())) addNode(node.file);
+  return {
+    nodes: Array.from(nodes.values()).sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)),
+    edges: Array.from(edges.values()).sort((a, b) =>
+      a.from < b.from ? -1 : a.from > b.from ? 1 : a.to < b.to ? -1 : a.to > b.to ? 1 : a.line - b.line
+    )
+  };
+}
+
+/**
+ * Restricts a graph to the neighbourhood of a file: the files reachable from it within
+ * `depth` edges in either direction, with their labels and the edges between them.
+ * @param graph The full graph.
+ * @param file Node file name of the focus file (relative to the graph's root).
+ * @param depth Maximum number of edges between the focus file and a kept file.
+ * @returns The filtered graph; empty if the file is not in the graph.
+ */
+export function filterNeighbourhood(graph: DependencyGraph, file: string, depth: number = 1): DependencyGraph {
+  const fileOf = new Map(graph.nodes.map(n => [n.id, n.file]));
+  const neighbours = new Map<string, Set<string>>();
+  const link = (a: string, b: string) => {
+    if (!neighbours.has(a)) neighbours.set(a, new Set());
+    neighbours.get(a)!.add(b);
+  };
+  for (const e of graph.edges) {
+    const from = fileOf.get(e.from)!;
+    const to = fileOf.get(e.to)!;
+    link(from, to);
+    link(to, from);
+  }
+  const kept = new Set<string>();
+  if (fileOf.has(file)) kept.add(file);
+  let frontier = Array.from(kept);
+  for (let i = 0; i < depth && frontier.length > 0; i++) {
+    const next: string[] = [];
+    for (const f of frontier) {
+      for (const n of neighbours.get(f) ?? []) {
+        if (!kept.has(n)) {
+          kept.add(n);
+          next.push(n);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return {
+    nodes: graph.nodes.filter(n => kept.has(n.file)),
+    edges: graph.edges.filter(e => kept.has(fileOf.get(e.from)!) && kept.has(fileOf.get(e.to)!))
+  };
+}
+
+/**
+ * Groups label nodes by file, in node order.
+ */
+function labelsByFile(graph: DependencyGraph): Map<string, GraphNode[]> {
+  const groups = new Map<string, GraphNode[]>();
+  for (const n of graph.nodes) {
+    if (!groups.has(n.file)) groups.set(n.file, []);
+    if (n.kind === 'label') groups.get(n.file)!.push(n);
+  }
+  return groups;
+}
+
+/**
+ * Formats a graph in Graphviz DOT. Each file is a cluster holding the file node and its labels.
+ * @param graph The graph to format.
+ * @returns DOT source text.
+ */
+export function formatDot(graph: DependencyGraph): string {
+  const quote = (s: string) => `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const lines = ['digraph ifttt {', '  rankdir=LR;', '  node [shape=box];'];
+  let cluster = 0;
+  for (const [file, labels] of labelsByFile(graph)) {
+    lines.push(`  subgraph cluster_${cluster++} {`);
+    lines.push(`    label=${quote(file)};`);
+    lines.push(`    ${quote(file)} [label=${quote(path.posix.basename(file))}];`);
+    for (const l of labels) {
+      lines.push(`    ${quote(l.id)} [label=${quote(`#${l.label}`)}, shape=ellipse];`);
+    }
+    lines.push('  }');
+  }
+  for (const e of graph.edges) {
+    lines.push(`  ${quote(e.from)} -> ${quote(e.to)} [label=${quote(`line ${e.line}`)}];`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Formats a graph as a Mermaid flowchart. Each file is a subgraph holding the file node
+ * and its labels; node ids are generated, since paths are not valid Mermaid ids.
+ * @param graph The graph to format.
+ * @returns Mermaid source text.
+ */
+export function formatMermaid(graph: DependencyGraph): string {
+  const ids = new Map(graph.nodes.map((n, i) => [n.id, `n${i}`]));
+  const text = (s: string) => `"${s.replace(/"/g, '#quot;')}"`;
+  const lines = ['flowchart LR'];
+  let group = 0;
+  for (const [file, labels] of labelsByFile(graph)) {
+    lines.push(`  subgraph g${group++} [${text(file)}]`);
+    lines.push(`    ${ids.get(file)}[${text(path.posix.basename(file))}]`);
+    for (const l of labels) {
+      lines.push(`    ${ids.get(l.id)}([${text(`#${l.label}`)}])`);
+    }
+    lines.push('  end');
+  }
+  for (const e of graph.edges) {
+    lines.push(`  ${ids.get(e.from)} -->|${text(`line ${e.line}`)}| ${ids.get(e.to)}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Formats a graph as a JSON document with `nodes` and `edges`.
+ * @param graph The graph to format.
+ * @returns Pretty-printed JSON text.
+ */
+export function formatGraphJson(graph: DependencyGraph): string {
+  return JSON.stringify(graph, null, 2);
+}
+
+/**
+ * Formats a graph in the requested format.
+ * @param graph The graph to format.
+ * @param format Output format to use.
+ * @returns The formatted graph.
+ */
+export function formatGraph(graph: DependencyGraph, format: GraphFormat): string {
+  switch (format) {
+    case 'mermaid':
+      return formatMermaid(graph);
+    case 'json':
+      return formatGraphJson(graph);
+    default:
+      return formatDot(graph);
+  }
+}
@@ -0,0 +1,186 @@
+// file: src/GraphAnalysis.ts
+import { EXIT_CODES } from './Diagnostics';
+import { DependencyGraph } from './Graph';
+
+/**
+ * A strongly-connected component of the dependency graph: every node in it can reach
+ * every other one through ThenChange edges.
+ */
+export interface GraphCycle {
+  /** `mutual` for two nodes referencing each other, `cycle` for longer loops. */
+  kind: 'mutual' | 'cycle';
+  /** Ids of the nodes in the component, sorted. */
+  nodes: string[];
+}
+
+/**
+ * A link into an IfChange block that does not link back.
+ */
+export interface AsymmetricLink {
+  /** Id of the IfChange block's node holding the ThenChange. */
+  from: string;
+  /** Id of the target node: an IfChange block with ThenChange targets of its own. */
+  to: string;
+  /** Line of the ThenChange directive in the `from` file. */
+  line: number;
+  /** Ids of the nodes the target block points at instead. */
+  targetsOfTo: string[];
+  /** True if both ends are labels, i.e. a labelled cross-reference. */
+  labelled: boolean;
+  /** True if symmetry is required for this link, making it an error. */
+  required: boolean;
+}
+
+/**
+ * The result of analysing a dependency graph.
+ */
+export interface GraphAnalysis {
+  /** Strongly-connected components with more than one node. */
+  cycles: GraphCycle[];
+  /** Links into IfChange blocks without a reciprocal link. */
+  asymmetric: AsymmetricLink[];
+}
+
+/**
+ * Options for analyzeGraph.
+ */
+export interface AnalysisOptions {
+  /** Require labelled cross-references (`a#x` → `b#y`) to be reciprocated. */
+  requireSymmetry?: boolean;
+}
+
+/**
+ * Finds the strongly-connected components of a graph with Tarjan's algorithm.
+ * @returns Components with more than one node, each sorted, ordered by first node.
+ */
+function stronglyConnected(graph: DependencyGraph): string[][] {
+  const successors = new Map<string, string[]>(graph.nodes.map(n => [n.id, []]));
+  for (const e of graph.edges) successors.get(e.from)!.push(e.to);
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  const visit = (node: string) => {
+    index.set(node, index.size);
+    lowLink.set(node, index.get(node)!);
+    stack.push(node);
+    onStack.add(node);
+    for (const next of successors.get(node) ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(node, Math.min(lowLink.get(node)!, index.get(next)!));
+      }
+    }
+    if (lowLink.get(node) === index.get(node)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      if (component.length > 1) components.push(component.sort());
+    }
+  };
+  for (const n of graph.nodes) {
+    if (!index.has(n.id)) visit(n.id);
+  }
+  return components.sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+}
+
+/**
+ * Analyses a dependency graph for reference cycles and one-sided cross-references.
+ *
+ * Every strongly-connected component with two or more nodes is reported: two blocks that
+ * name each other are a `mutual` reference, which is the usual way to keep two places in
+ * sync; longer loops are a `cycle`. A link from one IfChange block to another IfChange
+ * block (a target with ThenChange targets of its own) is asymmetric when the target block
+ * does not point back at the source block or its file; such links were probably meant to
+ * be reciprocal. With `requireSymmetry`, asymmetric links between two labels are required
+ * to be fixed.
+ * @param graph The graph to analyse, e.g. from buildGraph.
+ * @param options Whether labelled cross-references must be symmetric.
+ * @returns The cycles and asymmetric links found.
+ */
+export function analyzeGraph(graph: DependencyGraph, options: AnalysisOptions = {}): GraphAnalysis {
+  const kindOf = new Map(graph.nodes.map(n => [n.id, n]));
+  const targets = new Map<string, string[]>();
+  for (const e of graph.edges) {
+    if (!targets.has(e.from)) targets.set(e.from, []);
+    targets.get(e.from)!.push(e.to);
+  }
+  const cycles: GraphCycle[] = stronglyConnected(graph).map(nodes => ({
+    kind: nodes.length === 2 ? 'mutual' : 'cycle',
+    nodes
+  }));
+  const asymmetric: AsymmetricLink[] = [];
+  for (const e of graph.edges) {
+    const targetsOfTo = targets.get(e.to);
+    // Only links into IfChange blocks can be reciprocated; self-references are not links
+    if (!targetsOfTo || e.from === e.to) continue;
+    const from = kindOf.get(e.from)!;
+    if (targetsOfTo.includes(e.from) || targetsOfTo.includes(from.file)) continue;
+    const labelled = from.kind === 'label' && kindOf.get(e.to)!.kind === 'label';
+    asymmetric.push({
+      from: e.from,
+      to: e.to,
+      line: e.line,
+      targetsOfTo: Array.from(new Set(targetsOfTo)).sort(),
+      labelled,
+      required: !!options.requireSymmetry && labelled
+    });
+  }
+  return { cycles, asymmetric };
+}
+
+/**
+ * Formats an analysis as text: the cycles, then the asymmetric links.
+ * @param analysis Result of analyzeGraph.
+ * @returns The text report.
+ */
+export function formatAnalysisText(analysis: GraphAnalysis): string {
+  const lines: string[] = [];
+  if (analysis.cycles.length === 0) {
+    lines.push('No reference cycles.');
+  } else {
+    lines.push('Reference cycles (strongly-connected components):');
+    for (const c of analysis.cycles) lines.push(`  ${c.kind}: ${c.nodes.join(', ')}`);
+  }
+  if (analysis.asymmetric.length === 0) {
+    lines.push('No asymmetric cross-references.');
+  } else {
+    lines.push('Asymmetric cross-references (target block does not point back):');
+    for (const a of analysis.asymmetric) {
+      const level = a.required ? 'error: ' : '';
+      lines.push(`  ${level}${a.from} -> ${a.to} (line ${a.line}); ${a.to} points to ${a.targetsOfTo.join(', ')}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Computes the CLI exit code for an analysis: required asymmetric links are errors, or
+ * warnings with `warn`; cycles and other asymmetric links never fail the run.
+ * @param analysis Result of analyzeGraph.
+ * @param warn Report required links as warnings (the CLI `--warn` mode).
+ * @param maxWarnings Number of warnings allowed (unlimited if undefined).
+ * @returns An exit code from EXIT_CODES.
+ */
+export function analysisExitCode(analysis: GraphAnalysis, warn: boolean = false, maxWarnings?: number): number {
+  const failures = analysis.asymmetric.filter(a => a.required).length;
+  if (failures === 0) return EXIT_CODES.success;
+  if (!warn) return EXIT_CODES.errors;
+  return maxWarnings !== undefined && failures > maxWarnings ? EXIT_CODES.tooManyWarnings : EXIT_CODES.success;
+}
+
+/**
+ * Formats an analysis as a JSON document.
+ * @param analysis Result of analyzeGraph.
+ * @returns Pretty-printed JSON text.
+ */
+export function formatAnalysisJson(analysis: GraphAnalysis): string {
+  return JSON.stringify(analysis, null, 2);
+}
@@ -0,0 +1,57 @@
+// file: src/Hook.ts
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getHooksDir } from './Git';
+
+/**
+ * Comment line identifying a hook written by `ifttt-lint install-hook`, so it can be
+ * replaced without `--force`.
+ */
+export const HOOK_MARKER = '# Installed by ifttt-lint install-hook';
+
+/**
+ * Options for installPreCommitHook.
+ */
+export interface InstallHookOptions {
+  /** Directory inside the repository (defaults to the cwd). */
+  cwd?: string;
+  /** Replace an existing pre-commit hook that was not written by ifttt-lint. */
+  force?: boolean;
+}
+
+/**
+ * Returns the content of the git pre-commit hook: a shell script running `ifttt-lint
+ * --pre-commit` from the PATH, or from the repository's node_modules through npx.
+ */
+export function formatPreCommitHook(): string {
+  return [
+    '#!/bin/sh',
+    HOOK_MARKER,
+    '# Checks the staged changes to LINT.IfChange blocks; bypass with git commit --no-verify.',
+    'if command -v ifttt-lint >/dev/null 2>&1; then',
+    '  exec ifttt-lint --pre-commit',
+    'fi',
+    'exec npx --no-install ifttt-lint --pre-commit',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Writes the pre-commit hook into the repository's hooks directory (`core.hooksPath` if set,
+ * else `.git/hooks`). An existing hook is only replaced if ifttt-lint wrote it, or with `force`.
+ * @param options Repository directory and overwrite behavior.
+ * @returns Path of the installed hook.
+ */
+export async function installPreCommitHook(options: InstallHookOptions = {}): Promise<string> {
+  const hooksDir = await getHooksDir(options.cwd);
+  const file = path.join(hooksDir, 'pre-commit');
+  const existing = await fs.readFile(file, 'utf-8').catch(() => undefined);
+  if (existing !== undefined && !existing.includes(HOOK_MARKER) && !options.force) {
+    throw new Error(`A pre-commit hook already exists at ${file}; rerun with --force to replace it`);
+  }
+  await fs.mkdir(hooksDir, { recursive: true });
+  await fs.writeFile(file, formatPreCommitHook(), { encoding: 'utf-8', mode: 0o755 });
+  // writeFile keeps the mode of an existing file
+  await fs.chmod(file, 0o755);
+  return file;
+}
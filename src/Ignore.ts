@@ -0,0 +1,176 @@
+// file: src/Ignore.ts
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * A single ignore pattern, compiled with gitignore semantics.
+ */
+export interface IgnoreRule {
+  /** The pattern as written (without `!` and `#label`). */
+  pattern: string;
+  /** `!pattern`: re-include paths excluded by earlier rules. */
+  negated: boolean;
+  /** `pattern/`: only directories match, i.e. paths below them. */
+  dirOnly: boolean;
+  /** Optional label: the rule then applies only to that IfChange or ThenChange label. */
+  label?: string;
+  /** Regex matching a root-relative path or path prefix. */
+  regex: RegExp;
+}
+
+/**
+ * Decides whether files, or labeled blocks in them, are ignored.
+ */
+export interface IgnoreMatcher {
+  /**
+   * Checks a file path (relative to the cwd, or absolute) and optional label.
+   * Rules without a label apply to the whole file; labeled rules only to that label.
+   * The last matching rule wins, so `!pattern` re-includes earlier exclusions.
+   */
+  ignores(filePath: string, label?: string): boolean;
+}
+
+/**
+ * Translates a gitignore glob into a regex source: `**` spans directories, `*` and `?`
+ * stay within one path segment, `[...]` is a character class (`[!...]` negated) and
+ * backslash escapes the next character.
+ */
+function globToRegex(glob: string): string {
+  const escapeRegex = (c: string) => c.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  let re = '';
+  let i = 0;
+  while (i < glob.length) {
+    const ch = glob[i];
+    if (ch === '\\' && i + 1 < glob.length) {
+      re += escapeRegex(glob[i + 1]);
+      i += 2;
+    } else if (ch === '*' && glob[i + 1] === '*') {
+      const atStart = i === 0 || glob[i - 1] === '/';
+      const atEnd = i + 2 === glob.length || glob[i + 2] === '/';
+      if (atStart && atEnd) {
+        if (i + 2 === glob.length) {
+          // Trailing "**": everything below
+          re += '.*';
+          i += 2;
+        } else {
+          // "**/": zero or more directories
+          re += '(?:.*/)?';
+          i += 3;
+        }
+      } else {
+        // "**" inside a segment behaves like "*"
+        re += '[^/]*';
+        i += 2;
+      }
+    } else if (ch === '*') {
+      re += '[^/]*';
+      i++;
+    } else if (ch === '?') {
+      re += '[^/]';
+      i++;
+    } else if (ch === '[') {
+      const close = glob.indexOf(']', i + 2);
+      if (close === -1) {
+        re += '\\[';
+        i++;
+        continue;
+      }
+      let body = glob.slice(i + 1, close);
+      const negate = body.startsWith('!') || body.startsWith('^');
+      if (negate) body = body.slice(1);
+      re += `[${negate ? '^' : ''}${body.replace(/[\\\]^[]/g, '\\$&')}]`;
+      i = close + 1;
+    } else {
+      re += escapeRegex(ch);
+      i++;
+    }
+  }
+  return re;
+}
+
+/**
+ * Parses one ignore entry: `[!]glob[#label]`. A leading `/` or a slash inside the glob
+ * anchors it to the root; otherwise it matches at any depth. A trailing `/` matches
+ * directories only.
+ * @param entry The ignore entry, e.g. `*.json`, `src/**\/gen/`, `!keep.ts` or `file.ts#label`.
+ * @returns The compiled rule.
+ */
+export function parseIgnoreRule(entry: string): IgnoreRule {
+  let text = entry;
+  const negated = text.startsWith('!');
+  if (negated) text = text.slice(1);
+  let label: string | undefined;
+  const hash = text.search(/(?<!\\)#/);
+  if (hash !== -1) {
+    label = text.slice(hash + 1) || undefined;
+    text = text.slice(0, hash);
+  }
+  const pattern = text;
+  const dirOnly = text.endsWith('/');
+  if (dirOnly) text = text.slice(0, -1);
+  const anchored = text.includes('/');
+  if (text.startsWith('/')) text = text.slice(1);
+  const body = globToRegex(text);
+  const regex = new RegExp(`^${anchored ? '' : '(?:.*/)?'}${body}$`);
+  return { pattern, negated, dirOnly, ...(label !== undefined ? { label } : {}), regex };
+}
+
+/**
+ * Converts a path to the `/`-separated form rules are matched against, relative to `root`.
+ */
+function toMatchPath(filePath: string, root: string): string {
+  return path.relative(root, path.resolve(filePath)).split(path.sep).join('/');
+}
+
+/**
+ * Checks whether a rule matches a path: the path itself, or any of its parent directories,
+ * since ignoring a directory ignores everything below it. For paths outside the root,
+ * the leading `..` segments are never matched on their own.
+ */
+function ruleMatches(rule: IgnoreRule, relPath: string): boolean {
+  const segments = relPath.split('/');
+  let first = 1;
+  while (segments[first - 1] === '..') first++;
+  const last = rule.dirOnly ? segments.length - 1 : segments.length;
+  for (let n = first; n <= last; n++) {
+    if (rule.regex.test(segments.slice(0, n).join('/'))) return true;
+  }
+  return false;
+}
+
+/**
+ * Creates a matcher for ignore entries, as given with `--ignore`, in config files or in
+ * an ignore file.
+ * @param entries Ignore entries in order; later entries take precedence.
+ * @param root Directory that anchored patterns are relative to (defaults to the cwd).
+ * @returns The matcher.
+ */
+export function createIgnoreMatcher(entries: string[], root: string = process.cwd()): IgnoreMatcher {
+  const rules = entries.filter(e => e.length > 0).map(parseIgnoreRule);
+  return {
+    ignores(filePath: string, label?: string): boolean {
+      const relPath = toMatchPath(filePath, root);
+      let ignored = false;
+      for (const rule of rules) {
+        if (rule.label !== undefined && rule.label !== label) continue;
+        if (ruleMatches(rule, relPath)) ignored = !rule.negated;
+      }
+      return ignored;
+    }
+  };
+}
+
+/**
+ * Reads ignore entries from a `.iftttignore` file: one entry per line, with blank lines
+ * and `#` comments skipped (`\#` starts an entry with a literal hash) and trailing
+ * whitespace trimmed.
+ * @param filePath Path of the ignore file.
+ * @returns The entries in file order.
+ */
+export async function loadIgnoreFile(filePath: string): Promise<string[]> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  return content
+    .split(/\r?\n/)
+    .map(line => line.replace(/(?<!\\)\s+$/, ''))
+    .filter(line => line.length > 0 && !line.startsWith('#'));
+}
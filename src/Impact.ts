@@ -0,0 +1,231 @@
+// file: src/Impact.ts
+import { LineRange } from './DiffParser';
+import { parseFileDirectives, DirectiveDialect } from './DirectiveParser';
+import { buildLabelRanges, resolveTargetPath } from './LintEngine';
+import { LintDirective, IfChangeDirective, ThenChangeDirective } from './LintPrimitives';
+
+/**
+ * What to query: a whole file, the IfChange blocks covering a line, or those of a label.
+ */
+export interface ImpactQuery {
+  /** The file about to be edited. */
+  file: string;
+  /** Optional line: only IfChange blocks containing it are considered. */
+  line?: number;
+  /** Optional label: only the labeled IfChange block, or blocks inside the Label region. */
+  label?: string;
+}
+
+/**
+ * A ThenChange target that must change along with the queried code.
+ */
+export interface ImpactEntry {
+  /** The file containing the IfChange block. */
+  file: string;
+  /** Line of the IfChange directive. */
+  ifLine: number;
+  /** Optional label of the IfChange directive. */
+  ifLabel?: string;
+  /** Line of the ThenChange directive. */
+  thenLine: number;
+  /** The raw ThenChange target, as written in the directive. */
+  target: string;
+  /** The target resolved to a file path. */
+  targetPath: string;
+  /** Optional target label. */
+  label?: string;
+  /** Line range of the target label, when the target names one that exists. */
+  range?: LineRange;
+  /** Set when the target file, or its label, does not exist, or the target file fails to parse. */
+  missing?: 'file' | 'label' | 'parse';
+  /** The parse error, when `missing` is `parse`. */
+  error?: string;
+  /** 1 for targets of the queried blocks, 2 for targets of those targets, and so on. */
+  depth: number;
+}
+
+/**
+ * Options for findImpact.
+ */
+export interface ImpactOptions {
+  /** Repository root for `//path` targets (defaults to the cwd). */
+  root?: string;
+  /** Directive syntax to accept (defaults to `auto`). */
+  dialect?: DirectiveDialect;
+  /** Follow targets transitively: the blocks in each target that covers it add their targets. */
+  transitive?: boolean;
+}
+
+/**
+ * An IfChange block with the targets of its ThenChange.
+ */
+interface ImpactBlock {
+  /** The IfChange directive opening the block. */
+  ifChange: IfChangeDirective;
+  /** Line of the ThenChange directive closing the block. */
+  thenLine: number;
+  /** The ThenChange targets. */
+  targets: string[];
+}
+
+/**
+ * The directives of a ThenChange target file, or why they are unavailable.
+ */
+type TargetDirectives = { directives: LintDirective[] } | { missing: 'file' } | { missing: 'parse'; error: string };
+
+/**
+ * Parses an impact query of the form `file`, `file:line` or `file#label`.
+ * @param spec The query as given on the command line.
+ * @returns The parsed query.
+ */
+export function parseImpactQuery(spec: string): ImpactQuery {
+  const lineMatch = /^(.+):(\d+)$/.exec(spec);
+  if (lineMatch) return { file: lineMatch[1], line: Number(lineMatch[2]) };
+  const hash = spec.lastIndexOf('#');
+  if (hash > 0) return { file: spec.slice(0, hash), label: spec.slice(hash + 1) };
+  return { file: spec };
+}
+
+/**
+ * Collects the IfChange blocks of a file with their ThenChange targets; the targets of one
+ * ThenChange share its line.
+ */
+function findImpactBlocks(directives: LintDirective[]): ImpactBlock[] {
+  const blocks: ImpactBlock[] = [];
+  let open: ImpactBlock | null = null;
+  for (const d of directives) {
+    if (d.kind === 'IfChange') {
+      open = { ifChange: d as IfChangeDirective, thenLine: 0, targets: [] };
+    } else if (d.kind === 'ThenChange') {
+      if (open && open.targets.length === 0) {
+        open.thenLine = d.line;
+        blocks.push(open);
+      }
+      if (open && d.line === open.thenLine) open.targets.push((d as ThenChangeDirective).target);
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Selects the blocks covered by a range of lines, or all blocks for no range.
+ */
+function blocksCovering(blocks: ImpactBlock[], range?: LineRange): ImpactBlock[] {
+  if (!range) return blocks;
+  return blocks.filter(b => b.ifChange.line <= range.endLine && b.thenLine >= range.startLine);
+}
+
+/**
+ * Lists the files and labels that must change along with the queried part of a file: the
+ * ThenChange targets of the IfChange blocks covering the queried line or label (every
+ * block of the file for a whole-file query) and, if requested, transitively the targets
+ * of the blocks covering each target.
+ * @param query The file, line or label about to be edited.
+ * @param options Root, dialect and whether to follow targets transitively.
+ * @returns The targets in discovery order, each target file and label listed once.
+ */
+export async function findImpact(query: ImpactQuery, options: ImpactOptions = {}): Promise<ImpactEntry[]> {
+  const root = options.root ?? process.cwd();
+  const cache = new Map<string, Promise<TargetDirectives>>();
+  const directivesOf = (file: string): Promise<TargetDirectives> => {
+    let parsePromise = cache.get(file);
+    if (!parsePromise) {
+      parsePromise = parseFileDirectives(file, options.dialect).then(
+        (directives): TargetDirectives => ({ directives }),
+        (err: unknown): TargetDirectives => (err as NodeJS.ErrnoException).code === 'ENOENT'
+          ? { missing: 'file' }
+          : { missing: 'parse', error: err instanceof Error ? err.message : String(err) }
+      );
+      cache.set(file, parsePromise);
+    }
+    return parsePromise;
+  };
+  const queried = await parseFileDirectives(query.file, options.dialect);
+  const blocks = findImpactBlocks(queried);
+  let selected: ImpactBlock[];
+  if (query.line !== undefined) {
+    selected = blocksCovering(blocks, { startLine: query.line, endLine: query.line });
+  } else if (query.label !== undefined) {
+    const range = buildLabelRanges(queried).get(query.label);
+    if (!range) throw new Error(`Label '${query.label}' not found in ${query.file}`);
+    selected = blocks.filter(b => b.ifChange.label === query.label || blocksCovering([b], range).length > 0);
+  } else {
+    selected = blocks;
+  }
+
+  const entries: ImpactEntry[] = [];
+  const seen = new Set<string>();
+  let frontier = selected.map(block => ({ file: query.file, block }));
+  for (let depth = 1; frontier.length > 0; depth++) {
+    const next: typeof frontier = [];
+    for (const { file, block } of frontier) {
+      for (const target of block.targets) {
+        const [targetName, label] = target.split('#');
+        const targetPath = resolveTargetPath(file, targetName, root);
+        const key = label ? `${targetPath}#${label}` : targetPath;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const entry: ImpactEntry = {
+          file,
+          ifLine: block.ifChange.line,
+          ...(block.ifChange.label ? { ifLabel: block.ifChange.label } : {}),
+          thenLine: block.thenLine,
+          target,
+          targetPath,
+          ...(label ? { label } : {}),
+          depth
+        };
+        entries.push(entry);
+        const parsed = await directivesOf(targetPath);
+        if ('missing' in parsed) {
+          entry.missing = parsed.missing;
+          if (parsed.missing === 'parse') entry.error = parsed.error;
+          continue;
+        }
+        const targetDirectives = parsed.directives;
+        const range = label ? buildLabelRanges(targetDirectives).get(label) : undefined;
+        if (label && !range) {
+          entry.missing = 'label';
+          continue;
+        }
+        if (range) entry.range = range;
+        if (options.transitive) {
+          for (const b of blocksCovering(findImpactBlocks(targetDirectives), range)) {
+            next.push({ file: targetPath, block: b });
+          }
+        }
+      }
+    }
+    frontier = next;
+  }
+  return entries;
+}
+
+/**
+ * Formats impact entries as text, one `[impact] file#label:line -> target` line per target;
+ * transitive targets are indented by depth.
+ * @param entries Entries from findImpact.
+ * @returns The text, or a note that nothing must change.
+ */
+export function formatImpactText(entries: ImpactEntry[]): string {
+  if (entries.length === 0) return 'No ThenChange targets: nothing else must change.';
+  return entries.map(e => {
+    const source = e.ifLabel ? `${e.file}#${e.ifLabel}:${e.ifLine}` : `${e.file}:${e.ifLine}`;
+    const target = e.label ? `${e.targetPath}#${e.label}` : e.targetPath;
+    const detail = e.missing === 'file' ? ' (file not found)'
+      : e.missing === 'label' ? ' (label not found)'
+        : e.missing === 'parse' ? ` (parse error: ${e.error})`
+        : e.range ? ` (lines ${e.range.startLine}-${e.range.endLine})` : '';
+    return `${'  '.repeat(e.depth - 1)}[impact] ${source} -> ${target}${detail}`;
+  }).join('\n');
+}
+
+/**
+ * Formats impact entries as a JSON document with the query and its targets.
+ * @param query The query the entries answer.
+ * @param entries Entries from findImpact.
+ * @returns Pretty-printed JSON text.
+ */
+export function formatImpactJson(query: ImpactQuery, entries: ImpactEntry[]): string {
+  return JSON.stringify({ query, targets: entries }, null, 2);
+}
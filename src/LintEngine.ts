@@ -1,65 +1,225 @@
 // file: src/LintEngine.ts
 import * as os from 'os';
-import { parseChangedLines, LineRange } from './DiffParser';
+import { parseChangedLines, FileChanges, LineRange, reconstructOldContent, mapNewLineToOld } from './DiffParser';
 import * as path from 'path';
 import * as fsPromises from 'fs/promises';
 import Piscina from 'piscina';
 import { verboseLog } from './logger';
-import { LintDirective, ThenChangeDirective, IfChangeDirective } from './LintPrimitives';
+import { LintDirective, ThenChangeDirective, IfChangeDirective, LabelDirective, NoCheckPragma } from './LintPrimitives';
 import { validateDirectiveUniqueness } from './DirectiveValidator';
+import { validateDirectiveStructure } from './StructureValidator';
+import { LintDiagnostic, withSeverity } from './Diagnostics';
+import { readGitBlob } from './Git';
+import { createIgnoreMatcher } from './Ignore';
+import { ParserTask } from './parserWorker';
+import { DirectiveDialect, stripComments } from './DirectiveParser';
 
-interface PairDirective {
+/**
+ * An IfChange directive paired with one of the targets of its ThenChange directive.
+ */
+export interface PairDirective {
+  /** The changed file containing the IfChange/ThenChange block. */
   file: string;
+  /** Line of the IfChange directive. */
   ifLine: number;
   /** Optional label from the IfChange directive */
   ifLabel?: string;
+  /** The raw ThenChange target, optionally with `#label`. */
   thenTarget: string;
+  /** The ThenChange target resolved to a file path. */
   thenTargetPath: string;
+  /** Line of the ThenChange directive. */
   thenLine: number;
+  /** The path the target was renamed from, when the ThenChange still names the old path. */
+  renamedFrom?: string;
+  /** True if `file` was deleted in the change; lines then refer to the deleted file. */
+  deleted?: boolean;
+  /** True if the target is advisory: a missing change is reported as a warning. */
+  optional?: boolean;
+  /** The `LINT.NoCheck` pragma suppressing the change check of this pair, if any. */
+  noCheck?: NoCheckPragma;
+  /** True if the IfChange is marked `semantic`: whitespace and comment edits do not trigger it. */
+  semantic?: boolean;
+}
+
+/**
+ * Optional hooks for lintDiff.
+ */
+export interface LintDiffOptions {
+  /** Called for each IfChange/ThenChange pair found in the changed files. */
+  onPair?: (pair: PairDirective) => void;
+  /**
+   * Git revision holding the pre-image of the diff. Removed lines are checked against
+   * directives parsed from this revision; without it, the pre-image is rebuilt from the
+   * current file content and the diff hunks.
+   */
+  baseRev?: string;
+  /**
+   * Repository root: `//path` targets and anchored ignore patterns are relative to it
+   * (defaults to the cwd).
+   */
+  root?: string;
+  /** Directive syntax to accept (defaults to `auto`: both IFTTT and Chromium forms). */
+  dialect?: DirectiveDialect;
+  /**
+   * Parse changed and target files from the git index rather than the working tree, so
+   * partially staged files are checked as they will be committed. Files git does not track
+   * are read from the working tree.
+   */
+  fromIndex?: boolean;
+  /**
+   * Ignore hunks that only change whitespace or comments in every IfChange block, not just
+   * those marked `LINT.IfChange('label', semantic)`.
+   */
+  semantic?: boolean;
+}
+
+/**
+ * An IfChange/ThenChange block as an inclusive line range.
+ */
+interface IfChangeBlock {
+  /** Line of the IfChange directive. */
+  start: number;
+  /** Line of the ThenChange directive closing the block. */
+  end: number;
+  /** Optional label from the IfChange directive. */
+  label?: string;
+}
+
+/**
+ * Collects the IfChange/ThenChange blocks of a file; an IfChange is closed by the first
+ * ThenChange that follows it.
+ */
+function findIfChangeBlocks(directives: LintDirective[]): IfChangeBlock[] {
+  const blocks: IfChangeBlock[] = [];
+  let current: IfChangeDirective | null = null;
+  for (const d of directives) {
+    if (d.kind === 'IfChange') {
+      current = d as IfChangeDirective;
+    } else if (d.kind === 'ThenChange' && current) {
+      blocks.push({ start: current.line, end: d.line, label: current.label });
+      current = null;
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Resolves a ThenChange target file name. `//path` targets are relative to the repository
+ * root; other relative names are relative to the directory of the file containing the
+ * directive, and an empty name refers to that file itself. Root-relative targets keep the
+ * form of `file`: absolute if it is absolute, otherwise relative to the cwd.
+ * @param file Path of the file containing the ThenChange directive.
+ * @param targetName Target file name, without any `#label`.
+ * @param root Repository root for `//path` targets (defaults to the cwd).
+ * @returns The target's path, comparable with changed file paths.
+ */
+export function resolveTargetPath(file: string, targetName: string, root: string = process.cwd()): string {
+  if (targetName === '') return file;
+  if (targetName.startsWith('//')) {
+    const resolved = path.resolve(root, targetName.slice(2));
+    return path.isAbsolute(file) ? resolved : path.relative(process.cwd(), resolved);
+  }
+  return path.isAbsolute(targetName) ? targetName : path.join(path.dirname(file), targetName);
+}
+
+/**
+ * Computes the line range of each label in a file: LINT.Label/EndLabel regions and the
+ * bodies of labeled IfChange blocks.
+ * @param directives Directives parsed from the file.
+ * @returns The range of each label, by name.
+ */
+export function buildLabelRanges(directives: LintDirective[]): Map<string, LineRange> {
+  const ranges = new Map<string, LineRange>();
+  const pending: { name: string; start: number }[] = [];
+  let activeIfLabel: { name: string; start: number } | null = null;
+  directives.forEach(d => {
+    if (d.kind === 'Label') {
+      const labelDirective = d as LabelDirective;
+      pending.push({ name: labelDirective.name, start: d.line + 1 });
+    } else if (d.kind === 'EndLabel') {
+      const last = pending.pop();
+      if (last) ranges.set(last.name, { startLine: last.start, endLine: d.line - 1 });
+    } else if (d.kind === 'IfChange') {
+      const ic = d as IfChangeDirective;
+      if (activeIfLabel) {
+        const { name, start } = activeIfLabel;
+        if (!ranges.has(name)) {
+          const endLine = Math.max(start, d.line - 1);
+          ranges.set(name, { startLine: start, endLine });
+        }
+      }
+      activeIfLabel = ic.label ? { name: ic.label, start: d.line + 1 } : null;
+    } else if (d.kind === 'ThenChange') {
+      if (activeIfLabel) {
+        const { name, start } = activeIfLabel;
+        if (!ranges.has(name)) {
+          const endLine = Math.max(start, d.line - 1);
+          ranges.set(name, { startLine: start, endLine });
+        }
+      }
+      activeIfLabel = null;
+    }
+  });
+  if (activeIfLabel) {
+    const { name, start } = activeIfLabel;
+    if (!ranges.has(name)) {
+      ranges.set(name, { startLine: start, endLine: start });
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Finds the changed lines of a file that belong to cosmetic hunks: hunks whose old and new
+ * sides differ only in indentation, the width of whitespace runs, blank lines, or in comment
+ * text (other than LINT directives), as recognised by the comment extractor.
+ * @param changes The file's changes from parseChangedLines.
+ * @returns Added (new-file) and removed (old-file) line numbers of the cosmetic hunks.
+ */
+export function findCosmeticLines(changes: FileChanges): { added: Set<number>; removed: Set<number> } {
+  const added = new Set<number>();
+  const removed = new Set<number>();
+  // Whitespace runs collapse to one space rather than vanishing, so `int a` -> `inta` is a change
+  const normalize = (lines: string[]) => stripComments(lines.join('\n'), changes.file)
+    .map(line => line.trim().replace(/\s+/g, ' '))
+    .filter(line => line.length > 0)
+    .join('\n');
+  for (const hunk of changes.hunks) {
+    const oldSide = hunk.lines.filter(l => l.type !== 'add').map(l => l.content);
+    const newSide = hunk.lines.filter(l => l.type !== 'del').map(l => l.content);
+    if (normalize(oldSide) !== normalize(newSide)) continue;
+    for (const line of hunk.lines) {
+      if (line.type === 'add') added.add(line.newLine!);
+      else if (line.type === 'del') removed.add(line.oldLine!);
+    }
+  }
+  return { added, removed };
 }
 
 /**
- * Lints a unified diff against file directives and returns an exit code.
+ * Lints a unified diff against file directives and returns the findings.
  *
  * @param diffText - The unified diff text to process.
  * @param concurrency - Maximum number of concurrent parsing tasks.
- * @returns Promise resolving to 0 if no lint errors, or 1 if errors were found.
+ * @param options - Optional hooks, e.g. to observe each linted pair.
+ * @returns Promise resolving to the list of diagnostics (empty if no lint errors), each with
+ *   its severity.
  */
 export async function lintDiff(
   diffText: string,
   concurrency: number = os.cpus().length,
   verbose: boolean = false,
-  ignoreList: string[] = []
-): Promise<number> {
-  // Glob matcher: convert simple * and ? patterns into regex
-  function matchGlob(pattern: string, text: string): boolean {
-    // Escape regex metacharacters in pattern, then translate '*' -> '.*' and '?' -> '.'
-    const escapeRegex = (c: string) => c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
-    let re = '';
-    for (const ch of pattern) {
-      if (ch === '*') {
-        re += '.*';
-      } else if (ch === '?') {
-        re += '.';
-      } else {
-        re += escapeRegex(ch);
-      }
-    }
-    const rx = new RegExp('^' + re + '$');
-    return rx.test(text);
-  }
-  // Prepare ignore patterns: entries like "file.ts", "*.json", or "file.ts#label"
-  type IgnorePattern = { targetName: string; label?: string };
-  const ignorePatterns: IgnorePattern[] = ignoreList.map(item => {
-    const parts = item.split('#');
-    return { targetName: parts[0], label: parts[1] };
-  });
-  const shouldIgnore = (target: string): boolean => {
+  ignoreList: string[] = [],
+  options: LintDiffOptions = {}
+): Promise<LintDiagnostic[]> {
+  // Ignore entries like "file.ts", "src/**/*.json", "!keep.json" or "file.ts#label", with
+  // gitignore semantics; labeled entries apply to IfChange labels and ThenChange target labels
+  const root = path.resolve(options.root ?? process.cwd());
+  const ignoreMatcher = createIgnoreMatcher(ignoreList, root);
+  const shouldIgnore = (file: string, target: string): boolean => {
     const [targetName, targetLabel] = target.split('#');
-    return ignorePatterns.some(p =>
-      matchGlob(p.targetName, targetName) &&
-      (!p.label || p.label === targetLabel)
-    );
+    return ignoreMatcher.ignores(resolveTargetPath(file, targetName, root), targetLabel);
   };
   const changesMap = parseChangedLines(diffText);
   // Determine which changed files to lint, warn or skip
@@ -67,90 +227,153 @@ export async function lintDiff(
   const changedFiles: string[] = [];
   for (const file of allChangedRaw) {
     // Exclude user-specified patterns
-    const base = path.basename(file);
-    const skip = ignorePatterns.some(p =>
-      !p.label && (
-        matchGlob(p.targetName, base) || matchGlob(p.targetName, file)
-      )
-    );
-    if (skip) {
+    if (ignoreMatcher.ignores(file)) {
       if (verbose) verboseLog(`Skipping lint for ignored file: ${file}`);
       continue;
     }
     changedFiles.push(file);
   }
   const pairs: PairDirective[] = [];
-  let errors = 0;
+  const diagnostics: LintDiagnostic[] = [];
+  // Files renamed in the diff, by old path, so targets naming the old path can follow them
+  const renamedFiles = new Map<string, string>();
+  for (const changes of changesMap.values()) {
+    if (changes.status === 'renamed' && changes.oldPath !== undefined) {
+      renamedFiles.set(path.normalize(changes.oldPath), changes.file);
+    }
+  }
 
   // Step 1: Parse directives, enforce pairing of IfChange/ThenChange
   const workerScript = path.resolve(__dirname, '../dist/parserWorker.js');
   const pool = new Piscina({ filename: workerScript, maxThreads: concurrency, recordTiming: false });
+  const parseTask = (file: string): ParserTask => ({ filePath: file, dialect: options.dialect });
+  // Current file content comes from the working tree, or with `fromIndex` from the index
+  const parseCurrent = (file: string): Promise<LintDirective[]> => {
+    const fromDisk = () => pool.runTask(parseTask(file)) as Promise<LintDirective[]>;
+    if (!options.fromIndex) return fromDisk();
+    return readGitBlob('', file).then(
+      content => pool.runTask({ filePath: file, content, dialect: options.dialect }) as Promise<LintDirective[]>,
+      fromDisk
+    );
+  };
   const orphanThen: Array<{ file: string; then: ThenChangeDirective }> = [];
   const orphanIf: Array<{ file: string; line: number; label?: string }> = [];
   // Cache parse promises for file directives (changed and target files)
   const directivesCache = new Map<string, Promise<LintDirective[]>>();
+  // Cache parse promises for pre-image directives, used to locate removed lines
+  const oldDirectivesCache = new Map<string, Promise<LintDirective[]>>();
+  const oldDirectivesFor = (file: string): Promise<LintDirective[]> => {
+    let parsePromise = oldDirectivesCache.get(file);
+    if (!parsePromise) {
+      parsePromise = (async () => {
+        const changes = changesMap.get(file);
+        if (!changes || changes.removedLines.size === 0) return [];
+        const rebuild = async () => reconstructOldContent(
+          await fsPromises.readFile(file, 'utf-8').catch(() => ''),
+          changes.hunks
+        );
+        const content = options.baseRev
+          ? await readGitBlob(options.baseRev, changes.oldPath ?? file).catch(rebuild)
+          : await rebuild();
+        try {
+          const task: ParserTask = { filePath: file, content, dialect: options.dialect };
+          return await (pool.runTask(task) as Promise<LintDirective[]>);
+        } catch (err) {
+          if (verbose) verboseLog(`Could not parse pre-image of ${file}: ${(err as Error).message}`);
+          return [];
+        }
+      })();
+      oldDirectivesCache.set(file, parsePromise);
+    }
+    return parsePromise;
+  };
+  const isDeleted = (file: string) => changesMap.get(file)?.status === 'deleted';
+  // Unpaired IfChange/ThenChange directives are reported with the pairs below
+  const structureDiagnostics = (directives: LintDirective[], file: string): LintDiagnostic[] =>
+    validateDirectiveStructure(directives, file)
+      .filter(d => d.kind !== 'missing-then-change' && d.kind !== 'orphan-then-change');
   await Promise.all(changedFiles.map(async file => {
     if (verbose) verboseLog(`Processing changed file: ${file}`);
-    // Kick off parsing and cache promise for this file
-    const parsePromise = pool.runTask(file) as Promise<LintDirective[]>;
-    directivesCache.set(file, parsePromise);
-    const directives = await parsePromise;
-    // Validate duplicate directive labels within this file
-    errors += validateDirectiveUniqueness(directives, file, msg => console.log(msg));
-    let currentIf: { line: number; label?: string } | null = null;
+    // A deleted file's IfChange blocks are read from its pre-image; all of them were removed
+    const deleted = isDeleted(file);
+    let directives: LintDirective[];
+    if (deleted) {
+      directives = await oldDirectivesFor(file);
+    } else {
+      // Kick off parsing and cache promise for this file
+      const parsePromise = parseCurrent(file);
+      directivesCache.set(file, parsePromise);
+      directives = await parsePromise;
+      // Validate duplicate directive labels and block structure within this file
+      diagnostics.push(...validateDirectiveUniqueness(directives, file));
+      diagnostics.push(...structureDiagnostics(directives, file));
+    }
+    let currentIf: { line: number; label?: string; semantic?: boolean } | null = null;
     let sawThen = false;
     for (const d of directives) {
       if (d.kind === 'IfChange') {
         const ic = d as IfChangeDirective;
-        currentIf = { line: ic.line, label: ic.label };
+        currentIf = { line: ic.line, label: ic.label, semantic: ic.semantic };
         sawThen = false;
       } else if (d.kind === 'ThenChange') {
         const tc = d as ThenChangeDirective;
         if (!currentIf) {
-          orphanThen.push({ file, then: tc });
+          if (!deleted) orphanThen.push({ file, then: tc });
         } else {
           const thenTarget = tc.target;
-          const thenTargetName = thenTarget.split('#')[0];
-          const thenTargetPath = thenTargetName === ""
-            ? file
-            : path.isAbsolute(thenTargetName)
-            ? thenTargetName
-            : path.join(path.dirname(file), thenTargetName);
+          let thenTargetPath = resolveTargetPath(file, thenTarget.split('#')[0], root);
+          // A target renamed in this change is checked at its new path
+          const renamedTo = changesMap.has(thenTargetPath) ? undefined : renamedFiles.get(thenTargetPath);
+          const renamedFrom = renamedTo !== undefined ? thenTargetPath : undefined;
+          if (renamedTo !== undefined) thenTargetPath = renamedTo;
 
-          pairs.push({ file, ifLine: currentIf.line, ifLabel: currentIf.label, thenTarget, thenTargetPath, thenLine: d.line });
+          pairs.push({
+            file,
+            ifLine: currentIf.line,
+            ifLabel: currentIf.label,
+            thenTarget,
+            thenTargetPath,
+            thenLine: d.line,
+            ...(renamedFrom !== undefined ? { renamedFrom } : {}),
+            ...(deleted ? { deleted } : {}),
+            ...(tc.optional ? { optional: true } : {}),
+            ...(tc.noCheck ? { noCheck: tc.noCheck } : {}),
+            ...(currentIf.semantic ? { semantic: true } : {})
+          });
           sawThen = true;
         }
       }
     }
     // IfChange without any ThenChange
-    if (currentIf && !sawThen) {
+    if (currentIf && !sawThen && !deleted) {
       orphanIf.push({ file, line: currentIf.line, label: currentIf.label });
     }
     if (verbose) verboseLog(`Finished processing changed file: ${file}`);
   }));
+  if (options.onPair) pairs.forEach(options.onPair);
   // Report orphan ThenChange directives, unless ignored
   for (const o of orphanThen) {
     const target = o.then.target;
-    if (shouldIgnore(target)) {
-      if (verbose) console.log(
+    if (shouldIgnore(o.file, target)) {
+      if (verbose) verboseLog(
         `[ifttt] Ignoring orphan ThenChange '${target}' in ${o.file}:${o.then.line}`
       );
       continue;
     }
-    console.log(
-      `[ifttt] ${o.file}:${o.then.line} -> unexpected ThenChange '${target}' without preceding IfChange`
-    );
-    errors++;
+    diagnostics.push({
+      kind: 'orphan-then-change',
+      file: o.file,
+      line: o.then.line,
+      target,
+      thenLine: o.then.line,
+      message: `unexpected ThenChange '${target}' without preceding IfChange`
+    });
   }
   // Report orphan IfChange directives, unless ignored by file#label patterns
   for (const o of orphanIf) {
     // If this IfChange has a label and matches an ignore pattern, skip it
     if (o.label) {
-      const base = path.basename(o.file);
-      const skipIf = ignorePatterns.some(pat =>
-        matchGlob(pat.targetName, base) && pat.label === o.label
-      );
-      if (skipIf) {
+      if (ignoreMatcher.ignores(o.file, o.label)) {
         if (verbose) verboseLog(
           `[ifttt] Ignoring orphan IfChange '${o.label}' in ${o.file}:${o.line}`
         );
@@ -158,14 +381,18 @@ export async function lintDiff(
       }
     }
     const lbl = o.label ? `('${o.label}')` : '';
-    console.log(
-      `[ifttt] ${o.file}:${o.line} -> missing ThenChange after IfChange${lbl}`
-    );
-    errors++;
+    diagnostics.push({
+      kind: 'missing-then-change',
+      file: o.file,
+      line: o.line,
+      ifLabel: o.label,
+      message: `missing ThenChange after IfChange${lbl}`
+    });
   }
 
   // Step 2: Check for orphan ThenChange directives (no preceding IfChange)
   for (const file of changedFiles) {
+    if (isDeleted(file)) continue;
     // Await parsed directives for this file
     const directivesAll = await directivesCache.get(file)!;
     // Find ThenChange directives not in any pair
@@ -175,22 +402,23 @@ export async function lintDiff(
         const target = tc.target;
         const orphan = !pairs.some(p => p.file === file && p.thenLine === d.line);
         if (orphan) {
-          if (shouldIgnore(target)) {
-            if (verbose) console.log(
+          if (shouldIgnore(file, target)) {
+            if (verbose) verboseLog(
               `[ifttt] Ignoring orphan ThenChange '${target}' in ${file}:${d.line}`
             );
             continue;
           }
           // Resolve target file path
-          const [targetName] = target.split('#');
-          const targetFile = path.isAbsolute(targetName)
-            ? targetName
-            : path.join(path.dirname(file), targetName);
-          console.log(
-            `[ifttt] ${file}:${d.line} -> ThenChange '${target}' (line ${d.line}): ` +
-            `target file '${targetFile}' not changed.`
-          );
-          errors++;
+          const targetFile = resolveTargetPath(file, target.split('#')[0], root);
+          diagnostics.push({
+            kind: 'target-not-changed',
+            file,
+            line: d.line,
+            target,
+            targetPath: targetFile,
+            thenLine: d.line,
+            message: `ThenChange '${target}' (line ${d.line}): target file '${targetFile}' not changed.`
+          });
         }
       }
     }
@@ -208,98 +436,79 @@ export async function lintDiff(
   // Step 2: Parse label ranges for targets using the same Piscina pool
   await Promise.all(codeTargetFiles.map(async file => {
     if (verbose) verboseLog(`Processing target file: ${file}`);
+    if (isDeleted(file)) {
+      // Target deleted in this change: blocks that were deleted along with it are fine,
+      // but live ThenChange references to it must be updated
+      for (const p of pairs) {
+        if (p.thenTargetPath !== file || p.deleted) continue;
+        if (shouldIgnore(p.file, p.thenTarget)) {
+          if (verbose) verboseLog(`[ifttt] Ignoring ThenChange '${p.thenTarget}' for ${p.file}:${p.ifLine}`);
+          continue;
+        }
+        diagnostics.push({
+          kind: 'target-deleted',
+          file: p.file,
+          line: p.ifLine,
+          ifLabel: p.ifLabel,
+          target: p.thenTarget,
+          targetPath: file,
+          thenLine: p.thenLine,
+          message: `ThenChange target '${p.thenTarget}' was deleted in this change; ` +
+            `update the reference in ${p.file} (line ${p.thenLine}).`
+        });
+      }
+      return;
+    }
     // Ensure directives parsing promise exists for this file
     let parsePromise = directivesCache.get(file) as Promise<LintDirective[]> | undefined;
     if (!parsePromise) {
-      parsePromise = pool.runTask(file) as Promise<LintDirective[]>;
+      parsePromise = parseCurrent(file);
       directivesCache.set(file, parsePromise);
     }
     let directives: LintDirective[];
     try {
       directives = await parsePromise;
-      // Validate duplicate directive labels within target file
-      errors += validateDirectiveUniqueness(directives, file, msg => console.log(msg));
+      // Validate duplicate directive labels and, unless checked as a changed file, block structure
+      diagnostics.push(...validateDirectiveUniqueness(directives, file));
+      if (!changedFiles.includes(file)) diagnostics.push(...structureDiagnostics(directives, file));
     } catch {
       // Missing target file: report per corresponding ThenChange pragma, unless ignored
       for (const p of pairs) {
         const targetPath = p.thenTargetPath;
         if (targetPath === file) {
-          const skipTarget = shouldIgnore(p.thenTarget);
-          const skipLabel = p.ifLabel
-            ? ignorePatterns.some(pat =>
-                matchGlob(pat.targetName, path.basename(p.file)) && pat.label === p.ifLabel
-              )
-            : false;
+          const skipTarget = shouldIgnore(p.file, p.thenTarget);
+          const skipLabel = p.ifLabel ? ignoreMatcher.ignores(p.file, p.ifLabel) : false;
           if (skipTarget || skipLabel) {
             if (verbose) verboseLog(
               `[ifttt] Ignoring ThenChange '${p.thenTarget}' for ${p.file}${p.ifLabel ? `#${p.ifLabel}:${p.ifLine}` : `:${p.ifLine}`}`
             );
             continue;
           }
-          const ifContext = p.ifLabel
-            ? `${p.file}#${p.ifLabel}:${p.ifLine}`
-            : `${p.file}:${p.ifLine}`;
-          console.log(
-            `[ifttt] ${ifContext} -> ThenChange '${p.thenTarget}' (line ${p.thenLine}): ` +
-            `target file '${file}' not found.`
-          );
-          errors++;
+          diagnostics.push({
+            kind: 'target-not-found',
+            file: p.file,
+            line: p.ifLine,
+            ifLabel: p.ifLabel,
+            target: p.thenTarget,
+            targetPath: file,
+            thenLine: p.thenLine,
+            message: `ThenChange '${p.thenTarget}' (line ${p.thenLine}): target file '${file}' not found.`
+          });
         }
       }
       return;
     }
-    const ranges = new Map<string, LineRange>();
-    const pending: { name: string; start: number }[] = [];
-    let activeIfLabel: { name: string; start: number } | null = null;
-    directives.forEach(d => {
-      if (d.kind === 'Label') {
-        const labelDirective = d as import('./LintPrimitives').LabelDirective;
-        pending.push({ name: labelDirective.name, start: d.line + 1 });
-      } else if (d.kind === 'EndLabel') {
-        const last = pending.pop();
-        if (last) ranges.set(last.name, { startLine: last.start, endLine: d.line - 1 });
-      } else if (d.kind === 'IfChange') {
-        const ic = d as IfChangeDirective;
-        if (activeIfLabel) {
-          const { name, start } = activeIfLabel;
-          if (!ranges.has(name)) {
-            const endLine = Math.max(start, d.line - 1);
-            ranges.set(name, { startLine: start, endLine });
-          }
-        }
-        activeIfLabel = ic.label ? { name: ic.label, start: d.line + 1 } : null;
-      } else if (d.kind === 'ThenChange') {
-        if (activeIfLabel) {
-          const { name, start } = activeIfLabel;
-          if (!ranges.has(name)) {
-            const endLine = Math.max(start, d.line - 1);
-            ranges.set(name, { startLine: start, endLine });
-          }
-        }
-        activeIfLabel = null;
-      }
-    });
-    if (activeIfLabel) {
-      const { name, start } = activeIfLabel;
-      if (!ranges.has(name)) {
-        ranges.set(name, { startLine: start, endLine: start });
-      }
-    }
+    const ranges = buildLabelRanges(directives);
     labelRanges.set(file, ranges);
     if (verbose) verboseLog(`Finished processing target file: ${file}`);
   }));
-  // Clean up the worker pool
-  await pool.destroy();
 
   // Step 3: Validate pairs
+  const cosmeticLines = new Map<string, { added: Set<number>; removed: Set<number> }>();
   for (const p of pairs) {
     // Skip scenarios matching ignore patterns for labeled IfChange (file#label)
     if (p.ifLabel) {
-      const fileBase = path.basename(p.file);
-      const skipIf = ignorePatterns.some(pat =>
-        matchGlob(pat.targetName, fileBase) && pat.label === p.ifLabel
-      );
-      if (skipIf) {
+      if (ignoreMatcher.ignores(p.file, p.ifLabel)) {
         if (verbose) verboseLog(
           `[ifttt] Ignoring IfChange '${p.ifLabel}' in ${p.file}:${p.ifLine}`
         );
@@ -307,24 +516,58 @@ export async function lintDiff(
       }
     }
     // Skip scenarios matching ignore patterns for ThenChange target (targetName[#label])
-    if (shouldIgnore(p.thenTarget)) {
+    if (shouldIgnore(p.file, p.thenTarget)) {
       // ignored by user-specified patterns, skip validation
       continue;
     }
+    // Skip targets suppressed in the source with LINT.NoCheck
+    if (p.noCheck) {
+      if (verbose) verboseLog(
+        `[ifttt] LINT.NoCheck at ${p.file}:${p.noCheck.line} skips ThenChange '${p.thenTarget}'` +
+          (p.noCheck.reason ? `: ${p.noCheck.reason}` : '')
+      );
+      continue;
+    }
     const changes = changesMap.get(p.file);
     if (!changes) continue;
 
-    const parts = p.thenTarget.split('#');
-    const targetName = parts[0] ?? '';
-    const label = parts[1];
-    const targetFile = targetName.length === 0
-      ? p.file
-      : path.isAbsolute(targetName)
-        ? targetName
-        : path.join(path.dirname(p.file), targetName);
+    const label = p.thenTarget.split('#')[1];
+    const targetFile = p.thenTargetPath;
+    if (p.renamedFrom !== undefined) {
+      diagnostics.push({
+        kind: 'renamed-target',
+        severity: 'warning',
+        file: p.file,
+        line: p.ifLine,
+        ifLabel: p.ifLabel,
+        target: p.thenTarget,
+        targetPath: targetFile,
+        thenLine: p.thenLine,
+        message: `ThenChange '${p.thenTarget}' (line ${p.thenLine}): target file '${p.renamedFrom}' ` +
+          `was renamed to '${targetFile}' in this change; update the reference.`
+      });
+    }
+    // Deleted targets were handled with the label ranges: reported for live references,
+    // and changed enough for blocks deleted along with them
+    if (isDeleted(targetFile)) continue;
 
-    // Check if any line in the IfChange block (from ifLine to thenLine) was modified
-    const allChangedLines = new Set([...changes.addedLines, ...changes.removedLines]);
+    // Added lines are new-file line numbers and are checked against the current directives;
+    // removed lines are old-file line numbers and are checked against the pre-image directives
+    let addedLines = Array.from(changes.addedLines);
+    let removedLines = Array.from(changes.removedLines);
+    // In semantic mode, hunks that only change whitespace or comments do not trigger the block
+    if (options.semantic || p.semantic) {
+      let cosmetic = cosmeticLines.get(p.file);
+      if (!cosmetic) {
+        cosmetic = findCosmeticLines(changes);
+        cosmeticLines.set(p.file, cosmetic);
+      }
+      const { added, removed } = cosmetic;
+      addedLines = addedLines.filter(l => !added.has(l));
+      removedLines = removedLines.filter(l => !removed.has(l));
+    }
+    const oldBlocks = removedLines.length > 0 ? findIfChangeBlocks(await oldDirectivesFor(p.file)) : [];
+    const inBlock = (line: number, block: IfChangeBlock) => line >= block.start && line <= block.end;
 
     // Check if target file has IfChange blocks (cross-reference scenario)
     let targetHasIfChangeBlocks = false;
@@ -339,49 +582,52 @@ export async function lintDiff(
     }
 
     let triggered = false;
-    if (targetHasIfChangeBlocks) {
+    if (p.deleted) {
+      // Every line of an IfChange block in a deleted file was removed
+      triggered = true;
+    } else if (targetHasIfChangeBlocks) {
       // Cross-reference: Only trigger if changes are within IfChange blocks in source file
-      // Get all IfChange blocks in the source file
       const sourceDirectives = await directivesCache.get(p.file);
       if (sourceDirectives) {
-        const ifChangeBlocks: Array<{start: number, end: number}> = [];
-        let currentIfStart: number | null = null;
-
-        for (const directive of sourceDirectives) {
-          if (directive.kind === 'IfChange') {
-            currentIfStart = directive.line;
-          } else if (directive.kind === 'ThenChange' && currentIfStart !== null) {
-            ifChangeBlocks.push({start: currentIfStart, end: directive.line});
-            currentIfStart = null;
-          }
-        }
-
-        // Check if any changed line falls within any IfChange block
-        for (const changedLine of allChangedLines) {
-          if (ifChangeBlocks.some(block => changedLine >= block.start && changedLine <= block.end)) {
-            triggered = true;
-            break;
-          }
-        }
+        const ifChangeBlocks = findIfChangeBlocks(sourceDirectives);
+        triggered = addedLines.some(l => ifChangeBlocks.some(block => inBlock(l, block))) ||
+          removedLines.some(l => oldBlocks.some(block => inBlock(l, block)));
       }
     } else {
-      // No cross-reference: Use original behavior (any change in the specific IfChange block)
-      for (let lineNum = p.ifLine; lineNum <= p.thenLine; lineNum++) {
-        if (allChangedLines.has(lineNum)) {
-          triggered = true;
-          break;
-        }
-      }
+      // No cross-reference: any change in the specific IfChange block. The block's pre-image
+      // is the old block whose IfChange maps to this one, or failing that has the same label.
+      const oldIfLine = mapNewLineToOld(changes.hunks, p.ifLine);
+      const oldBlock = oldBlocks.find(block => block.start === oldIfLine) ??
+        (p.ifLabel ? oldBlocks.find(block => block.label === p.ifLabel) : undefined);
+      triggered = addedLines.some(l => l >= p.ifLine && l <= p.thenLine) ||
+        (oldBlock !== undefined && removedLines.some(l => inBlock(l, oldBlock)));
     }
 
     if (!triggered) continue;
 
     const targetChanges = changesMap.get(targetFile);
 
-    // Build context for error messages including optional IfChange label
-    const ifContext = p.ifLabel
-      ? `${p.file}#${p.ifLabel}:${p.ifLine}`
-      : `${p.file}:${p.ifLine}`;
+    // Common fields for diagnostics about this pair
+    const pairInfo = {
+      file: p.file,
+      line: p.ifLine,
+      ifLabel: p.ifLabel,
+      target: p.thenTarget,
+      targetPath: targetFile,
+      thenLine: p.thenLine
+    };
+    // A deleted IfChange block gets its own diagnostic in place of target-not-changed;
+    // optional targets are advisory, so either is only a warning
+    const reportNotChanged = (message: string, targetLabel?: string) => {
+      diagnostics.push({
+        kind: p.deleted ? 'if-change-deleted' : 'target-not-changed',
+        ...pairInfo,
+        ...(targetLabel !== undefined ? { label: targetLabel } : {}),
+        ...(p.optional ? { optional: true, severity: 'warning' as const } : {}),
+        message: (p.deleted ? `IfChange block deleted; targets '${p.thenTarget}' must change.` : message) +
+          (p.optional ? ' (optional target)' : '')
+      });
+    };
     if (!targetChanges) {
       // If the target file does not exist, skip error (already reported)
       let exists = true;
@@ -393,11 +639,7 @@ export async function lintDiff(
       if (!exists) {
         continue;
       }
-      console.log(
-        `[ifttt] ${ifContext} -> ThenChange '${p.thenTarget}' (line ${p.thenLine}): ` +
-        `target file '${targetFile}' not changed.`
-      );
-      errors++;
+      reportNotChanged(`ThenChange '${p.thenTarget}' (line ${p.thenLine}): target file '${targetFile}' not changed.`);
       continue;
     }
 
@@ -406,39 +648,47 @@ export async function lintDiff(
       const availableLabels = ranges ? Array.from(ranges.keys()).join(', ') || 'none' : 'none';
       const range = ranges?.get(label);
       if (!range) {
-        console.log(
-          `[ifttt] ${ifContext} -> ThenChange '${p.thenTarget}' (line ${p.thenLine}): ` +
-          `label '${label}' not found in '${targetFile}'. Available labels: ${availableLabels}`
-        );
-        errors++;
+        diagnostics.push({
+          kind: 'label-not-found',
+          ...pairInfo,
+          label,
+          message: `ThenChange '${p.thenTarget}' (line ${p.thenLine}): ` +
+            `label '${label}' not found in '${targetFile}'. Available labels: ${availableLabels}`
+        });
         continue;
       }
-      // Check for changes within the labeled region
-      const changesInRange = [
-        ...Array.from(targetChanges.addedLines),
-        ...Array.from(targetChanges.removedLines)
-      ].filter(l => l >= range.startLine && l <= range.endLine);
+      // Check for changes within the labeled region, matching removed lines against the
+      // label's range in the target's pre-image
+      const changesInRange = Array.from(targetChanges.addedLines)
+        .filter(l => l >= range.startLine && l <= range.endLine);
+      if (targetChanges.removedLines.size > 0) {
+        const oldRange = buildLabelRanges(await oldDirectivesFor(targetFile)).get(label);
+        if (oldRange) {
+          changesInRange.push(...Array.from(targetChanges.removedLines)
+            .filter(l => l >= oldRange.startLine && l <= oldRange.endLine));
+        }
+      }
       if (changesInRange.length === 0) {
         const allChanges = [...targetChanges.addedLines, ...targetChanges.removedLines].sort((a, b) => a - b);
-        console.log(
-          `[ifttt] ${ifContext} -> ThenChange '${p.thenTarget}' (line ${p.thenLine}): ` +
-          `expected changes in '${targetFile}#${label}' (${range.startLine}-${range.endLine}), but none found. ` +
-          `Actual changes in file: [${allChanges.join(', ')}]`
+        reportNotChanged(
+          `ThenChange '${p.thenTarget}' (line ${p.thenLine}): ` +
+            `expected changes in '${targetFile}#${label}' (${range.startLine}-${range.endLine}), but none found. ` +
+            `Actual changes in file: [${allChanges.join(', ')}]`,
+          label
         );
-        errors++;
       }
     } else {
       // Check for any changes in the target file
       const allChanges = [...targetChanges.addedLines, ...targetChanges.removedLines].sort((a, b) => a - b);
       if (allChanges.length === 0) {
-        console.log(
-          `[ifttt] ${ifContext} -> ThenChange '${p.thenTarget}' (line ${p.thenLine}): ` +
-          `expected changes in '${targetFile}', but none found.`
+        reportNotChanged(
+          `ThenChange '${p.thenTarget}' (line ${p.thenLine}): expected changes in '${targetFile}', but none found.`
         );
-        errors++;
       }
     }
   }
+  // Clean up the worker pool
+  await pool.destroy();
 
-  return errors > 0 ? 1 : 0;
+  return withSeverity(diagnostics);
 }
@@ -21,6 +21,11 @@ export interface IfChangeDirective extends BaseDirective {
   kind: 'IfChange';
   /** Optional label name associated with this change directive. */
   label?: string;
+  /**
+   * True if only semantic changes trigger the block, written `LINT.IfChange('label', semantic)`:
+   * edits to whitespace or comments alone do not require the targets to change.
+   */
+  semantic?: boolean;
 }
 
 /**
@@ -30,6 +35,20 @@ export interface ThenChangeDirective extends BaseDirective {
   kind: 'ThenChange';
   /** The target file path, optionally with `#label` to specify a labeled region. */
   target: string;
+  /** True for advisory targets, written `LINT.ThenChange('target', optional)`. */
+  optional?: boolean;
+  /** The `LINT.NoCheck` pragma on the line before the directive, which suppresses its checks. */
+  noCheck?: NoCheckPragma;
+}
+
+/**
+ * A `LINT.NoCheck('reason')` pragma suppressing the checks of the ThenChange on the next line.
+ */
+export interface NoCheckPragma {
+  /** The 1-based line number of the pragma. */
+  line: number;
+  /** Why the check is suppressed; scan mode reports pragmas without one. */
+  reason?: string;
 }
 
 /**
@@ -0,0 +1,98 @@
+// file: src/Override.ts
+import * as path from 'path';
+import { DiagnosticKind, LintDiagnostic } from './Diagnostics';
+
+/**
+ * A `NO_IFTTT_FILE=path#label` marker: skips the ThenChange targets naming a file or label.
+ */
+export interface FileOverride {
+  /** Target file, relative to the repository root, with forward slashes. */
+  file: string;
+  /** Target label; without one, every target in the file is skipped. */
+  label?: string;
+  /** Reason written after the marker, if any. */
+  reason?: string;
+}
+
+/**
+ * The override markers found in a change description.
+ */
+export interface ChangeOverrides {
+  /** Reason given with `NO_IFTTT=<reason>`, which skips every ThenChange target. */
+  reason?: string;
+  /** `NO_IFTTT_FILE` markers for individual targets. */
+  files: FileOverride[];
+}
+
+/**
+ * The findings an override can accept: targets that were not updated along with their
+ * IfChange block. Structural problems cannot be overridden.
+ */
+const OVERRIDABLE_KINDS: ReadonlySet<DiagnosticKind> = new Set<DiagnosticKind>(['target-not-changed', 'if-change-deleted']);
+
+// NO_IFTTT=<reason>, up to the end of the line
+const noIftttRegex = /\bNO_IFTTT=(.*)$/;
+// NO_IFTTT_FILE=path[#label], optionally followed by a reason
+const noIftttFileRegex = /\bNO_IFTTT_FILE=(\S+)(?:\s+(.*))?$/;
+
+/**
+ * Parses `NO_IFTTT=<reason>` and `NO_IFTTT_FILE=path#label [reason]` markers from a change
+ * description, such as a commit message or pull request body. Markers may appear anywhere
+ * on a line; `NO_IFTTT_FILE` paths are relative to the repository root and may start with `//`.
+ * @param description The change description.
+ * @returns The markers found; empty if there are none.
+ */
+export function parseOverrides(description: string): ChangeOverrides {
+  const overrides: ChangeOverrides = { files: [] };
+  for (const line of description.split(/\r?\n/)) {
+    let m: RegExpExecArray | null;
+    if ((m = noIftttFileRegex.exec(line))) {
+      const [file, label] = m[1].replace(/^\/\//, '').split('#');
+      const reason = m[2]?.trim();
+      overrides.files.push({ file, ...(label ? { label } : {}), ...(reason ? { reason } : {}) });
+    } else if ((m = noIftttRegex.exec(line))) {
+      overrides.reason = m[1].trim();
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Checks whether a description holds any override marker.
+ * @param overrides Result of parseOverrides.
+ */
+export function hasOverrides(overrides: ChangeOverrides): boolean {
+  return overrides.reason !== undefined || overrides.files.length > 0;
+}
+
+/**
+ * Downgrades the findings accepted by override markers to informational. `NO_IFTTT`
+ * accepts every `target-not-changed` and `if-change-deleted` finding; `NO_IFTTT_FILE`
+ * accepts those whose target is the given file, or the given label in it. Accepted
+ * findings record the reason in `overrideReason` and at the end of their message.
+ * @param diagnostics Findings of a diff-mode run.
+ * @param overrides Markers from the change description.
+ * @param root Repository root that `NO_IFTTT_FILE` paths are relative to.
+ * @returns The findings, with accepted ones downgraded.
+ */
+export function applyOverrides(diagnostics: LintDiagnostic[], overrides: ChangeOverrides, root: string): LintDiagnostic[] {
+  return diagnostics.map(d => {
+    if (!OVERRIDABLE_KINDS.has(d.kind)) return d;
+    const targetFile = d.targetPath !== undefined
+      ? path.relative(root, path.resolve(d.targetPath)).split(path.sep).join('/')
+      : undefined;
+    const targetLabel = d.target?.split('#')[1];
+    const fileOverride = overrides.files.find(o =>
+      o.file === targetFile && (o.label === undefined || o.label === targetLabel)
+    );
+    if (!fileOverride && overrides.reason === undefined) return d;
+    const marker = fileOverride ? `NO_IFTTT_FILE=${fileOverride.file}${fileOverride.label ? `#${fileOverride.label}` : ''}` : 'NO_IFTTT';
+    const reason = (fileOverride ? fileOverride.reason ?? overrides.reason : overrides.reason) || 'no reason given';
+    return {
+      ...d,
+      severity: 'info',
+      overrideReason: reason,
+      message: `${d.message} Skipped by ${marker}: ${reason}`
+    };
+  });
+}
@@ -0,0 +1,176 @@
+// file: src/Reporter.ts
+import {
+  DiagnosticKind,
+  LintDiagnostic,
+  LintReport,
+  Severity,
+  formatLocation,
+  severityOf,
+  sortDiagnostics
+} from './Diagnostics';
+import { formatSarif } from './SarifReporter';
+import { formatGithub } from './GithubReporter';
+import { formatCheckstyle, formatJunit } from './XmlReporter';
+
+/**
+ * Output formats supported by the CLI.
+ */
+export const OUTPUT_FORMATS = ['text', 'json', 'sarif', 'github', 'junit', 'checkstyle', 'summary'] as const;
+
+/**
+ * An output format name accepted by `--format`.
+ */
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/**
+ * Checks whether a string names a supported output format.
+ * @param value Candidate format name.
+ * @returns True if the value is one of OUTPUT_FORMATS.
+ */
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Formats a diagnostic as a single `[ifttt] file:line -> message` text line;
+ * warnings and informational findings are marked with `warning:` or `info:` before the message.
+ * @param d The diagnostic to format.
+ * @returns The formatted line.
+ */
+export function formatDiagnostic(d: LintDiagnostic): string {
+  const level = severityOf(d) === 'error' ? '' : `${severityOf(d)}: `;
+  return `[ifttt] ${formatLocation(d)} -> ${level}${d.message}`;
+}
+
+/**
+ * Prints diagnostics in the plain-text format, one line per finding.
+ * @param diagnostics Findings to print.
+ * @param write Function receiving each formatted line (defaults to console.log).
+ */
+export function reportText(
+  diagnostics: LintDiagnostic[],
+  write: (line: string) => void = line => console.log(line)
+): void {
+  for (const d of diagnostics) {
+    write(formatDiagnostic(d));
+  }
+}
+
+/**
+ * Formats a report as a single JSON document with findings and summary counts.
+ * @param report The lint or scan result.
+ * @returns Pretty-printed JSON text.
+ */
+export function formatJson(report: LintReport): string {
+  const byKind: Partial<Record<DiagnosticKind, number>> = {};
+  const bySeverity: Partial<Record<Severity, number>> = {};
+  for (const d of report.diagnostics) {
+    byKind[d.kind] = (byKind[d.kind] ?? 0) + 1;
+    bySeverity[severityOf(d)] = (bySeverity[severityOf(d)] ?? 0) + 1;
+  }
+  return JSON.stringify(
+    {
+      mode: report.mode,
+      exitCode: report.exitCode,
+      summary: {
+        total: report.diagnostics.length,
+        files: new Set(report.diagnostics.map(d => d.file)).size,
+        byKind,
+        bySeverity
+      },
+      diagnostics: sortDiagnostics(report.diagnostics)
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Finding kinds fixed by changing the ThenChange targets, rather than the directives.
+ */
+const TARGET_KINDS: ReadonlySet<DiagnosticKind> = new Set<DiagnosticKind>(['target-not-changed', 'if-change-deleted']);
+
+/**
+ * Formats a report as a short summary that fits a terminal, as printed by the pre-commit
+ * hook: the counts, up to `limit` findings cut to `width` columns, and what to do next.
+ * @param report The lint or scan result.
+ * @param width Maximum line length.
+ * @param limit Maximum number of findings listed.
+ * @returns The summary text.
+ */
+export function formatSummary(report: LintReport, width: number = 80, limit: number = 10): string {
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+  if (report.diagnostics.length === 0) {
+    return `ifttt-lint: no findings${report.checks ? ` (${plural(report.checks.length, 'check')} passed)` : ''}`;
+  }
+  const counts: Record<Severity, number> = { error: 0, warning: 0, info: 0 };
+  for (const d of report.diagnostics) counts[severityOf(d)]++;
+  const totals = [
+    counts.error > 0 ? plural(counts.error, 'error') : '',
+    counts.warning > 0 ? plural(counts.warning, 'warning') : '',
+    counts.info > 0 ? `${counts.info} info` : ''
+  ].filter(Boolean).join(', ');
+  const files = new Set(report.diagnostics.map(d => d.file)).size;
+  const fit = (line: string) => (line.length > width ? `${line.slice(0, Math.max(width - 3, 0))}...` : line);
+  const sorted = sortDiagnostics(report.diagnostics);
+  const lines = [`ifttt-lint: ${totals} in ${plural(files, 'file')}`];
+  for (const d of sorted.slice(0, limit)) lines.push(fit(`  ${formatDiagnostic(d).replace(/^\[ifttt\] /, '')}`));
+  if (sorted.length > limit) lines.push(`  ... and ${sorted.length - limit} more`);
+  if (report.exitCode !== 0) {
+    const failing = report.diagnostics.filter(d => severityOf(d) !== 'info');
+    lines.push(failing.some(d => TARGET_KINDS.has(d.kind))
+      ? fit('Stage updates to the ThenChange targets above, or add LINT.NoCheck("reason").')
+      : fit('Fix the LINT directives above and stage the files.'));
+    lines.push(fit('To commit anyway: git commit --no-verify'));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Options that adjust how reporters render findings.
+ */
+export interface ReportOptions {
+  /** Findings are reported as warnings (the CLI `--warn` mode). */
+  warn?: boolean;
+  /** Terminal width for the summary format (defaults to 80 columns). */
+  width?: number;
+  /** Repository root that GitHub annotation paths are relative to (defaults to the cwd). */
+  root?: string;
+}
+
+/**
+ * Prints a report in the requested output format.
+ * @param report The lint or scan result.
+ * @param format Output format to use.
+ * @param write Function receiving the formatted output (defaults to console.log).
+ * @param options Rendering options such as warn mode.
+ */
+export function printReport(
+  report: LintReport,
+  format: OutputFormat,
+  write: (text: string) => void = text => console.log(text),
+  options: ReportOptions = {}
+): void {
+  switch (format) {
+    case 'json':
+      write(formatJson(report));
+      break;
+    case 'sarif':
+      write(formatSarif(report, options.root));
+      break;
+    case 'github':
+      if (report.diagnostics.length > 0) write(formatGithub(report, options.warn, options.root));
+      break;
+    case 'junit':
+      write(formatJunit(report));
+      break;
+    case 'checkstyle':
+      write(formatCheckstyle(report));
+      break;
+    case 'summary':
+      write(formatSummary(report, options.width));
+      break;
+    default:
+      reportText(report.diagnostics, write);
+  }
+}
@@ -0,0 +1,221 @@
+// file: src/SarifReporter.ts
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { DiagnosticKind, LintDiagnostic, LintReport, Severity, defaultSeverity, severityOf, sortDiagnostics } from './Diagnostics';
+
+/** Version of ifttt-lint reported as the SARIF tool driver version. */
+const { version: TOOL_VERSION } = require('../package.json') as { version: string };
+
+/** SARIF base id of the repository root, which artifact URIs are relative to. */
+const SRCROOT = '%SRCROOT%';
+
+/**
+ * Static description of a SARIF rule for one diagnostic kind.
+ */
+interface SarifRuleInfo {
+  /** Stable rule identifier reported in `ruleId`. */
+  id: string;
+  /** PascalCase rule name. */
+  name: string;
+  /** One-line summary of the rule. */
+  short: string;
+  /** Help text explaining how to resolve findings. */
+  help: string;
+}
+
+/**
+ * SARIF rule metadata for every diagnostic kind. Rule ids must never change once published,
+ * since code scanning uses them to track alerts across runs.
+ */
+const SARIF_RULES: Record<DiagnosticKind, SarifRuleInfo> = {
+  'orphan-then-change': {
+    id: 'IFTTT001',
+    name: 'OrphanThenChange',
+    short: 'ThenChange directive without a preceding IfChange.',
+    help: 'Every LINT.ThenChange must close a LINT.IfChange block. Add the missing LINT.IfChange above it or remove the stray ThenChange.'
+  },
+  'missing-then-change': {
+    id: 'IFTTT002',
+    name: 'MissingThenChange',
+    short: 'IfChange directive without a following ThenChange.',
+    help: 'Every LINT.IfChange block must be closed by a LINT.ThenChange naming the files or labels that must change with it.'
+  },
+  'target-not-changed': {
+    id: 'IFTTT003',
+    name: 'TargetNotChanged',
+    short: 'IfChange block changed but its ThenChange target did not.',
+    help: 'Lines inside a LINT.IfChange block were modified, so the file or labeled region named by its LINT.ThenChange must be updated in the same change.'
+  },
+  'label-not-found': {
+    id: 'IFTTT004',
+    name: 'LabelNotFound',
+    short: 'ThenChange references a label missing from the target file.',
+    help: 'The `#label` part of a LINT.ThenChange target must name a LINT.Label or labeled LINT.IfChange in the target file. Fix the label or the reference.'
+  },
+  'target-not-found': {
+    id: 'IFTTT005',
+    name: 'TargetNotFound',
+    short: 'ThenChange references a file that does not exist.',
+    help: 'LINT.ThenChange targets starting with // are resolved from the repository root; other targets are resolved relative to the directory of the file containing the directive. Fix the path or restore the target file.'
+  },
+  'duplicate-label': {
+    id: 'IFTTT006',
+    name: 'DuplicateLabel',
+    short: 'Two directives in one file share a label name.',
+    help: 'LINT.IfChange labels and LINT.Label names share one namespace per file and must be unique. Rename one of the directives.'
+  },
+  'malformed-directive': {
+    id: 'IFTTT007',
+    name: 'MalformedDirective',
+    short: 'LINT directive could not be parsed.',
+    help: 'Use LINT.IfChange, LINT.IfChange("label"), LINT.ThenChange("target"), LINT.ThenChange(["a", "b#label"]), LINT.Label("name") or LINT.EndLabel.'
+  },
+  'renamed-target': {
+    id: 'IFTTT008',
+    name: 'RenamedTarget',
+    short: 'ThenChange references a file renamed in this change.',
+    help: 'The target file was renamed, so the change was checked against its new path. Update the LINT.ThenChange reference to the new path.'
+  },
+  'if-change-deleted': {
+    id: 'IFTTT009',
+    name: 'IfChangeDeleted',
+    short: 'IfChange block deleted but its ThenChange targets did not change.',
+    help: 'A file containing a LINT.IfChange block was deleted. Update the files named by its LINT.ThenChange in the same change, or confirm they are no longer needed.'
+  },
+  'target-deleted': {
+    id: 'IFTTT010',
+    name: 'TargetDeleted',
+    short: 'ThenChange references a file deleted in this change.',
+    help: 'The file named by a LINT.ThenChange was deleted. Point the reference at the file that replaces it, or remove the IfChange/ThenChange block.'
+  },
+  'unbalanced-label': {
+    id: 'IFTTT011',
+    name: 'UnbalancedLabel',
+    short: 'Label without a matching EndLabel, or EndLabel without a Label.',
+    help: 'Every LINT.Label("name") must be closed by a LINT.EndLabel, and every LINT.EndLabel must close an open LINT.Label. Add or remove the directive so they pair up.'
+  },
+  'nested-if-change': {
+    id: 'IFTTT012',
+    name: 'NestedIfChange',
+    short: 'IfChange opened inside another open IfChange block.',
+    help: 'LINT.IfChange blocks cannot nest. Close the outer block with a LINT.ThenChange before opening the next LINT.IfChange.'
+  },
+  'label-crosses-block': {
+    id: 'IFTTT013',
+    name: 'LabelCrossesBlock',
+    short: 'Label region overlaps an IfChange block.',
+    help: 'A LINT.Label region must lie entirely inside or entirely outside a LINT.IfChange block. Move the LINT.Label or LINT.EndLabel so that no label boundary falls between the IfChange and its ThenChange.'
+  },
+  'stale-baseline-entry': {
+    id: 'IFTTT014',
+    name: 'StaleBaselineEntry',
+    short: 'Baseline entry no longer matches a finding.',
+    help: 'The finding recorded by this --baseline entry has been fixed. Remove the entry, or regenerate the file with --write-baseline, so the baseline only shrinks.'
+  },
+  'no-check-without-reason': {
+    id: 'IFTTT015',
+    name: 'NoCheckWithoutReason',
+    short: 'LINT.NoCheck pragma without a reason.',
+    help: 'Suppressing a LINT.ThenChange needs a justification. Write LINT.NoCheck("reason") on the line before the ThenChange, or mark the target as advisory with LINT.ThenChange("target", optional).'
+  }
+};
+
+/**
+ * Converts a file path to a SARIF artifact URI relative to the repository root, since code
+ * scanning maps results to files through `%SRCROOT%` rather than absolute `file://` URIs.
+ * @param filePath Path as reported in a diagnostic (absolute, or relative to the cwd).
+ * @param root Repository root the URI is relative to.
+ * @returns URI string for `artifactLocation.uri`.
+ */
+function toArtifactUri(filePath: string, root: string): string {
+  return encodeURI(path.relative(root, path.resolve(filePath)).split(path.sep).join('/'));
+}
+
+/**
+ * Maps a severity to a SARIF result level; informational findings are notes.
+ */
+function sarifLevel(severity: Severity): 'error' | 'warning' | 'note' {
+  return severity === 'info' ? 'note' : severity;
+}
+
+/**
+ * Builds a SARIF physical location for a file and optional line.
+ */
+function physicalLocation(filePath: string, root: string, line?: number) {
+  return {
+    artifactLocation: { uri: toArtifactUri(filePath, root), uriBaseId: SRCROOT },
+    ...(line !== undefined ? { region: { startLine: Math.max(line, 1) } } : {})
+  };
+}
+
+/**
+ * Converts a diagnostic to a SARIF result, with the ThenChange line and resolved target
+ * attached as related locations.
+ */
+function toSarifResult(d: LintDiagnostic, ruleIndex: Map<DiagnosticKind, number>, root: string) {
+  const relatedLocations: object[] = [];
+  if (d.thenLine !== undefined && d.thenLine !== d.line) {
+    relatedLocations.push({
+      id: relatedLocations.length + 1,
+      physicalLocation: physicalLocation(d.file, root, d.thenLine),
+      message: { text: `ThenChange '${d.target ?? ''}'` }
+    });
+  }
+  if (d.targetPath) {
+    relatedLocations.push({
+      id: relatedLocations.length + 1,
+      physicalLocation: physicalLocation(d.targetPath, root),
+      message: { text: d.label ? `Target '${d.targetPath}#${d.label}'` : `Target '${d.targetPath}'` }
+    });
+  }
+  return {
+    ruleId: SARIF_RULES[d.kind].id,
+    ruleIndex: ruleIndex.get(d.kind),
+    level: sarifLevel(severityOf(d)),
+    message: { text: d.message },
+    locations: [{ physicalLocation: physicalLocation(d.file, root, d.line) }],
+    ...(relatedLocations.length > 0 ? { relatedLocations } : {})
+  };
+}
+
+/**
+ * Formats a report as a SARIF 2.1.0 log suitable for code scanning upload.
+ * @param report The lint or scan result.
+ * @param root Repository root artifact URIs are relative to (defaults to the cwd).
+ * @returns Pretty-printed SARIF JSON text.
+ */
+export function formatSarif(report: LintReport, root: string = process.cwd()): string {
+  const kinds = Object.keys(SARIF_RULES) as DiagnosticKind[];
+  const ruleIndex = new Map(kinds.map((k, i) => [k, i]));
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'ifttt-lint',
+            version: TOOL_VERSION,
+            informationUri: 'https://www.github.com/ebrevdo/ifttt-lint',
+            rules: kinds.map(k => {
+              const rule = SARIF_RULES[k];
+              return {
+                id: rule.id,
+                name: rule.name,
+                shortDescription: { text: rule.short },
+                fullDescription: { text: rule.help },
+                help: { text: rule.help },
+                defaultConfiguration: { level: sarifLevel(defaultSeverity(k)) },
+                properties: { kind: k }
+              };
+            })
+          }
+        },
+        automationDetails: { id: `ifttt-lint/${report.mode}/` },
+        originalUriBaseIds: { [SRCROOT]: { uri: pathToFileURL(path.resolve(root)).href.replace(/\/?$/, '/') } },
+        results: sortDiagnostics(report.diagnostics).map(d => toSarifResult(d, ruleIndex, root))
+      }
+    ]
+  };
+  return JSON.stringify(log, null, 2);
+}
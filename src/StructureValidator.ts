@@ -0,0 +1,118 @@
+// file: src/StructureValidator.ts
+import { LintDirective, IfChangeDirective, ThenChangeDirective, LabelDirective } from './LintPrimitives';
+import { LintDiagnostic } from './Diagnostics';
+
+/**
+ * Validates the block structure of a single file's directives:
+ * - every IfChange is closed by a ThenChange, and is not opened inside another open IfChange;
+ * - every ThenChange closes an IfChange (the targets of one ThenChange share its line);
+ * - every Label is closed by an EndLabel, and every EndLabel closes an open Label;
+ * - no Label or EndLabel separates a ThenChange from its IfChange, so label regions and
+ *   IfChange blocks nest instead of overlapping.
+ * @param directives Array of parsed directives from a file.
+ * @param filePath Path to the file (used in diagnostics).
+ * @returns Diagnostics for each unpaired, nested or overlapping directive.
+ */
+export function validateDirectiveStructure(
+  directives: LintDirective[],
+  filePath: string
+): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  // The open IfChange, with the number of labels open when it was opened
+  let openIf: { directive: IfChangeDirective; labelDepth: number } | null = null;
+  let lastThenLine: number | undefined;
+  const openLabels: LabelDirective[] = [];
+  const ifLabelOf = (ic: IfChangeDirective) => (ic.label ? `('${ic.label}')` : '');
+
+  for (const d of directives) {
+    if (d.kind === 'IfChange') {
+      const ic = d as IfChangeDirective;
+      if (openIf) {
+        const outer = openIf.directive;
+        diagnostics.push({
+          kind: 'nested-if-change',
+          file: filePath,
+          line: d.line,
+          ifLabel: ic.label,
+          message: `IfChange${ifLabelOf(ic)} opened inside IfChange${ifLabelOf(outer)} at line ${outer.line}, ` +
+            'which has no ThenChange'
+        });
+      }
+      openIf = { directive: ic, labelDepth: openLabels.length };
+    } else if (d.kind === 'ThenChange') {
+      const target = (d as ThenChangeDirective).target;
+      if (openIf) {
+        // Labels opened inside the block must be closed before its ThenChange
+        const inner = openLabels[openIf.labelDepth];
+        if (inner) {
+          diagnostics.push({
+            kind: 'label-crosses-block',
+            file: filePath,
+            line: d.line,
+            ifLabel: openIf.directive.label,
+            label: inner.name,
+            target,
+            thenLine: d.line,
+            message: `ThenChange '${target}' is separated from its IfChange at line ${openIf.directive.line} ` +
+              `by Label '${inner.name}' at line ${inner.line}, which is still open`
+          });
+        }
+        openIf = null;
+        lastThenLine = d.line;
+      } else if (d.line !== lastThenLine) {
+        diagnostics.push({
+          kind: 'orphan-then-change',
+          file: filePath,
+          line: d.line,
+          target,
+          thenLine: d.line,
+          message: `unexpected ThenChange '${target}' without preceding IfChange`
+        });
+      }
+    } else if (d.kind === 'Label') {
+      openLabels.push(d as LabelDirective);
+    } else if (d.kind === 'EndLabel') {
+      const label = openLabels.pop();
+      if (!label) {
+        diagnostics.push({
+          kind: 'unbalanced-label',
+          file: filePath,
+          line: d.line,
+          message: 'EndLabel without a preceding Label'
+        });
+      } else if (openIf && openLabels.length < openIf.labelDepth) {
+        // The label was opened before the open IfChange and ends inside its block
+        openIf.labelDepth = openLabels.length;
+        diagnostics.push({
+          kind: 'label-crosses-block',
+          file: filePath,
+          line: d.line,
+          ifLabel: openIf.directive.label,
+          label: label.name,
+          message: `EndLabel closes Label '${label.name}' at line ${label.line} inside IfChange at line ` +
+            `${openIf.directive.line}, separating the IfChange from its ThenChange`
+        });
+      }
+    }
+  }
+  if (openIf) {
+    const ic = openIf.directive;
+    diagnostics.push({
+      kind: 'missing-then-change',
+      file: filePath,
+      line: ic.line,
+      ifLabel: ic.label,
+      message: `missing ThenChange after IfChange${ifLabelOf(ic)}`
+    });
+  }
+  for (const label of openLabels) {
+    diagnostics.push({
+      kind: 'unbalanced-label',
+      file: filePath,
+      line: label.line,
+      label: label.name,
+      message: `Label '${label.name}' without a following EndLabel`
+    });
+  }
+  return diagnostics;
+}
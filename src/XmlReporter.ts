@@ -0,0 +1,146 @@
+// file: src/XmlReporter.ts
+import { LintCheck, LintDiagnostic, LintReport, severityOf, sortDiagnostics } from './Diagnostics';
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8"?>';
+
+/**
+ * Escapes text for use in XML attribute values and element content.
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Checks whether a diagnostic belongs to a check: pair checks match on the
+ * IfChange line, ThenChange line and target; file checks match every finding in the file.
+ */
+function matchesCheck(d: LintDiagnostic, c: LintCheck): boolean {
+  if (d.file !== c.file) return false;
+  if (c.line === undefined) return true;
+  return d.line === c.line && d.thenLine === c.thenLine && d.target === c.target;
+}
+
+/**
+ * Builds a readable JUnit test case name for a check.
+ */
+function checkName(c: LintCheck): string {
+  if (c.line === undefined) return 'LINT directives';
+  const ifPart = c.ifLabel ? `IfChange('${c.ifLabel}')` : 'IfChange';
+  return `${ifPart} (line ${c.line}) -> ThenChange '${c.target ?? ''}' (line ${c.thenLine ?? '?'})`;
+}
+
+interface JunitCase {
+  name: string;
+  failures: LintDiagnostic[];
+  /** Warning and informational findings, reported as test output since they do not fail the run. */
+  warnings: LintDiagnostic[];
+}
+
+/**
+ * Builds a test case from its findings, separating errors from warnings.
+ */
+function junitCase(name: string, diagnostics: LintDiagnostic[]): JunitCase {
+  return {
+    name,
+    failures: diagnostics.filter(d => severityOf(d) === 'error'),
+    warnings: diagnostics.filter(d => severityOf(d) !== 'error')
+  };
+}
+
+/**
+ * Formats a report as JUnit XML. Each check becomes a test case grouped by source file;
+ * findings that do not belong to any check become test cases of their own. Errors are
+ * failures; warnings and informational findings are written to the test case's `<system-out>`.
+ * @param report The lint or scan result.
+ * @returns JUnit XML text.
+ */
+export function formatJunit(report: LintReport): string {
+  const suites = new Map<string, JunitCase[]>();
+  const suiteFor = (file: string) => {
+    let cases = suites.get(file);
+    if (!cases) {
+      cases = [];
+      suites.set(file, cases);
+    }
+    return cases;
+  };
+  const claimed = new Set<LintDiagnostic>();
+  for (const c of report.checks ?? []) {
+    const failures = report.diagnostics.filter(d => matchesCheck(d, c));
+    failures.forEach(d => claimed.add(d));
+    suiteFor(c.file).push(junitCase(checkName(c), failures));
+  }
+  for (const d of sortDiagnostics(report.diagnostics)) {
+    if (claimed.has(d)) continue;
+    suiteFor(d.file).push(junitCase(`${d.kind} (line ${d.line})`, [d]));
+  }
+
+  const files = Array.from(suites.keys()).sort();
+  const total = files.reduce((n, f) => n + suites.get(f)!.length, 0);
+  const failed = files.reduce((n, f) => n + suites.get(f)!.filter(c => c.failures.length > 0).length, 0);
+  const lines = [
+    XML_HEADER,
+    `<testsuites name="ifttt-lint (${report.mode})" tests="${total}" failures="${failed}">`
+  ];
+  for (const file of files) {
+    const cases = suites.get(file)!;
+    const suiteFailures = cases.filter(c => c.failures.length > 0).length;
+    lines.push(
+      `  <testsuite name="${escapeXml(file)}" tests="${cases.length}" failures="${suiteFailures}">`
+    );
+    for (const c of cases) {
+      const open = `    <testcase classname="${escapeXml(file)}" name="${escapeXml(c.name)}"`;
+      if (c.failures.length === 0 && c.warnings.length === 0) {
+        lines.push(`${open}/>`);
+        continue;
+      }
+      lines.push(`${open}>`);
+      for (const d of c.failures) {
+        lines.push(
+          `      <failure type="${d.kind}" message="${escapeXml(d.message)}">` +
+          `${escapeXml(`${d.file}:${d.line}: ${d.message}`)}</failure>`
+        );
+      }
+      if (c.warnings.length > 0) {
+        const text = c.warnings.map(d => `${severityOf(d)}: ${d.file}:${d.line}: ${d.message}`).join('\n');
+        lines.push(`      <system-out>${escapeXml(text)}</system-out>`);
+      }
+      lines.push('    </testcase>');
+    }
+    lines.push('  </testsuite>');
+  }
+  lines.push('</testsuites>');
+  return lines.join('\n');
+}
+
+/**
+ * Formats a report as Checkstyle XML, with one `<error>` per finding under its `<file>`.
+ * @param report The lint or scan result.
+ * @returns Checkstyle XML text.
+ */
+export function formatCheckstyle(report: LintReport): string {
+  const byFile = new Map<string, LintDiagnostic[]>();
+  for (const d of sortDiagnostics(report.diagnostics)) {
+    const list = byFile.get(d.file) ?? [];
+    list.push(d);
+    byFile.set(d.file, list);
+  }
+  const lines = [XML_HEADER, '<checkstyle version="4.3">'];
+  for (const [file, diagnostics] of byFile) {
+    lines.push(`  <file name="${escapeXml(file)}">`);
+    for (const d of diagnostics) {
+      lines.push(
+        `    <error line="${d.line}" column="1" severity="${severityOf(d)}" ` +
+        `message="${escapeXml(d.message)}" source="ifttt-lint.${d.kind}"/>`
+      );
+    }
+    lines.push('  </file>');
+  }
+  lines.push('</checkstyle>');
+  return lines.join('\n');
+}
@@ -2,36 +2,108 @@
 // file: src/main.ts
 import * as os from 'os';
 import * as fs from 'fs/promises';
-import { lintDiff } from './LintEngine';
-import { parseChangedLines } from './DiffParser';
+import { lintDiff, LintDiffOptions, resolveTargetPath } from './LintEngine';
+import { FileChanges, parseChangedLines } from './DiffParser';
 import { verboseLog } from './logger';
 import { Command, InvalidOptionArgumentError } from 'commander';
 import { spawn } from 'child_process';
 import { rgPath } from '@vscode/ripgrep';
 import Piscina from 'piscina';
 import * as path from 'path';
-import { validateDirectiveUniqueness } from './DirectiveValidator';
-import { LintDirective } from './LintPrimitives';
+import { validateDirectiveUniqueness, validateSuppressions } from './DirectiveValidator';
+import { validateDirectiveStructure } from './StructureValidator';
+import { LintDirective, ThenChangeDirective, LabelDirective, IfChangeDirective } from './LintPrimitives';
+import { EXIT_CODES, LintCheck, LintDiagnostic, LintReport, demoteErrors, exitCodeFor, withSeverity } from './Diagnostics';
+import { OUTPUT_FORMATS, OutputFormat, isOutputFormat, printReport } from './Reporter';
+import { formatGithubSummary } from './GithubReporter';
+import { GitDiffSpec, getRepoRoot, readCommitMessages, readGitDiff, resolveBaseRev } from './Git';
+import { ProjectConfig, applyConfig, loadConfig, loadProjectConfig } from './Config';
+import { IgnoreMatcher, createIgnoreMatcher, loadIgnoreFile } from './Ignore';
+import { DirectiveDialect } from './DirectiveParser';
+import { Dependent, DependentsQuery, findDependents, formatDependentsJson, formatDependentsText, parseDependentsQuery } from './Dependents';
+import { ImpactEntry, ImpactOptions, ImpactQuery, findImpact, formatImpactJson, formatImpactText, parseImpactQuery } from './Impact';
+import { DependencyGraph, FileDirectives, GRAPH_FORMATS, GraphFormat, buildGraph, filterNeighbourhood, formatGraph, isGraphFormat, toNodeFile } from './Graph';
+import { applyBaseline, createBaseline, loadBaseline, writeBaseline } from './Baseline';
+import { GraphAnalysis, analysisExitCode, analyzeGraph, formatAnalysisJson, formatAnalysisText } from './GraphAnalysis';
+import { applyOverrides, hasOverrides, parseOverrides } from './Override';
+import { ParserTask } from './parserWorker';
+import { installPreCommitHook } from './Hook';
 
 /**
- * Runs linting on a diff input and returns an exit code.
+ * Selects the project configuration for a run.
+ */
+export interface ConfigOptions {
+  /**
+   * The configuration to apply; `null` disables configuration. When omitted, the nearest
+   * config file is discovered by walking up from the cwd.
+   */
+  config?: ProjectConfig | null;
+}
+
+/**
+ * Options for runLint: lint hooks plus the project configuration.
+ */
+export interface RunLintOptions extends LintDiffOptions, ConfigOptions {
+  /**
+   * Change description (commit message or pull request body) holding `NO_IFTTT` markers.
+   * Defaults to the commit messages of a `base` git diff; other inputs have none.
+   */
+  description?: string;
+}
+
+/**
+ * Resolves the configuration selected by `options`, discovering it if not given.
+ */
+async function resolveConfig(options: ConfigOptions): Promise<ProjectConfig | undefined> {
+  if (options.config === null) return undefined;
+  return options.config ?? loadProjectConfig();
+}
+
+/**
+ * Determines the repository root for `//path` targets and anchored ignore patterns: the
+ * config `root` if configured, else the top level of the git repository containing `dir`.
+ * @param config The project configuration, if any.
+ * @param dir Directory to start from; also the fallback outside a git repository.
+ * @returns Absolute path of the repository root.
+ */
+async function detectRoot(config: ProjectConfig | undefined, dir: string = process.cwd()): Promise<string> {
+  if (config) return config.root;
+  return getRepoRoot(dir).catch(() => path.resolve(dir));
+}
+
+/**
+ * Runs linting on a diff input and returns the findings.
  *
- * @param diffInput - Object specifying diff input: filePath to read from, diffText directly, or stdin stream.
+ * @param diffInput - Object specifying diff input: filePath to read from, diffText directly,
+ *   a git spec to compute the diff from the repository, or stdin stream.
  * @param parallelism - Number of parallel tasks to use (>=1), or -1 to default to CPU cores.
- * @returns Promise resolving to exit code: 0 if no lint errors, 1 if lint errors found.
+ * @returns Promise resolving to the list of diagnostics (empty if no lint errors).
  */
 export async function runLint(
-  diffInput: { filePath?: string; diffText?: string; stdin?: NodeJS.ReadableStream },
+  diffInput: { filePath?: string; diffText?: string; git?: GitDiffSpec; stdin?: NodeJS.ReadableStream },
   parallelism: number,
   verbose: boolean = false,
   /** Optional list of ignore patterns: file paths or file#label */
-  ignoreList: string[] = []
-): Promise<number> {
+  ignoreList: string[] = [],
+  /** Optional lint hooks passed through to lintDiff, and the project configuration */
+  options: RunLintOptions = {}
+): Promise<LintDiagnostic[]> {
+  const config = await resolveConfig(options);
+  if (config && verbose) verboseLog(`Using config file: ${config.file}`);
   let diffText: string;
   if (diffInput.filePath && diffInput.filePath !== '-') {
     diffText = await fs.readFile(diffInput.filePath, 'utf-8');
   } else if (diffInput.diffText !== undefined) {
     diffText = diffInput.diffText;
+  } else if (diffInput.git) {
+    diffText = await readGitDiff(diffInput.git);
+    if (verbose) verboseLog(`Computed git diff (${diffText.length} bytes)`);
+    // Read pre-images from the diff's base revision unless the caller chose one
+    if (options.baseRev === undefined) {
+      options = { ...options, baseRev: await resolveBaseRev(diffInput.git) };
+    }
+    // Staged changes are checked as they will be committed, not as the working tree has them
+    if (diffInput.git.staged && options.fromIndex === undefined) options = { ...options, fromIndex: true };
   } else if (diffInput.stdin) {
     diffText = await new Promise<string>((resolve, reject) => {
       let data = '';
@@ -62,8 +134,73 @@ export async function runLint(
   if (verbose) {
     verboseLog(`Parallelism: ${parallelism}`);
   }
-  const code = await lintDiff(diffText, parallelism, verbose, ignoreList);
-  return code;
+  // Config ignore patterns apply in addition to those given on the command line
+  const ignores = config ? [...config.ignore, ...ignoreList] : ignoreList;
+  // The config selects the directive dialect unless the caller chose one
+  if (config?.dialect && options.dialect === undefined) options = { ...options, dialect: config.dialect };
+  // Likewise for semantic mode, which ignores whitespace-only and comment-only edits
+  if (config?.semantic !== undefined && options.semantic === undefined) options = { ...options, semantic: config.semantic };
+  // `//path` targets and anchored ignore patterns are relative to the repository root
+  if (options.root === undefined) {
+    options = { ...options, root: await detectRoot(config, diffInput.git?.cwd) };
+    if (verbose) verboseLog(`Repository root: ${options.root}`);
+  }
+  const diagnostics = [
+    ...await lintDiff(diffText, parallelism, verbose, ignores, options),
+    ...await findDeletedTargetReferences(changesMap, parallelism, verbose, ignores, options)
+  ];
+  const configured = config ? applyConfig(diagnostics, config) : diagnostics;
+  // Accept the findings named by NO_IFTTT markers in the change description
+  const description = options.description ?? (diffInput.git ? await readCommitMessages(diffInput.git) : '');
+  const overrides = parseOverrides(description);
+  if (!hasOverrides(overrides)) return configured;
+  if (verbose) verboseLog(`Change description has NO_IFTTT markers: ${JSON.stringify(overrides)}`);
+  return applyOverrides(configured, overrides, options.root!);
+}
+
+/**
+ * Reports ThenChange references to files deleted in a diff from files the diff leaves
+ * untouched; lintDiff reports those in the changed files. Scans the repository for them.
+ * @param changesMap Changes parsed from the diff.
+ * @param parallelism Number of worker threads to use for parsing.
+ * @param verbose Whether to enable verbose logging.
+ * @param ignores Ignore patterns: file paths or file#label.
+ * @param options The repository root and directive dialect.
+ * @returns A `target-deleted` diagnostic for each dangling reference.
+ */
+async function findDeletedTargetReferences(
+  changesMap: Map<string, FileChanges>,
+  parallelism: number,
+  verbose: boolean,
+  ignores: string[],
+  options: LintDiffOptions
+): Promise<LintDiagnostic[]> {
+  const deleted = Array.from(changesMap.entries()).filter(([, c]) => c.status === 'deleted').map(([file]) => file);
+  if (deleted.length === 0) return [];
+  const root = options.root ?? process.cwd();
+  const ignore = createIgnoreMatcher(ignores, root);
+  const inDiff = new Set(Array.from(changesMap.keys()).map(file => path.resolve(file)));
+  const files = (await findLintFiles(path.relative(process.cwd(), root) || '.', ignore, verbose))
+    .filter(file => !inDiff.has(path.resolve(file)));
+  if (files.length === 0) return [];
+  const parsed = await parseLintFiles(files, parallelism, options.dialect, verbose);
+  return withSeverity(deleted.flatMap(file => findDependents(parsed, { file }, root)
+    .filter(dep => {
+      const skip = ignore.ignores(dep.targetPath, dep.label);
+      if (skip && verbose) verboseLog(`[ifttt] Ignoring ThenChange '${dep.target}' for ${dep.file}:${dep.line}`);
+      return !skip;
+    })
+    .map((dep): LintDiagnostic => ({
+      kind: 'target-deleted',
+      file: dep.file,
+      line: dep.ifLine ?? dep.line,
+      ...(dep.ifLabel !== undefined ? { ifLabel: dep.ifLabel } : {}),
+      target: dep.target,
+      targetPath: file,
+      thenLine: dep.line,
+      message: `ThenChange target '${dep.target}' was deleted in this change; ` +
+        `update the reference in ${dep.file} (line ${dep.line}).`
+    }))));
 }
 
 /**
@@ -80,6 +217,54 @@ export function parseCliArgs(rawArgs: string[]): {
   ignoreList: string[];
   diffFile?: string;
   scanDir?: string;
+  /** Output format requested via --format (undefined for the default text output) */
+  format?: OutputFormat;
+  /** Base ref for --base: lint the diff from its merge base with the head ref */
+  base?: string;
+  /** Head ref for --head (defaults to HEAD when --base is given) */
+  head?: string;
+  /** Lint the staged changes (--staged) */
+  staged?: boolean;
+  /** Ignore whitespace-only and comment-only changes in IfChange blocks (--semantic) */
+  semantic?: boolean;
+  /** Pre-commit hook mode: lint the staged changes with a short summary (--pre-commit) */
+  preCommit?: boolean;
+  /** Install the git pre-commit hook (the install-hook command) */
+  installHook?: boolean;
+  /** Replace an existing pre-commit hook not written by ifttt-lint (--force) */
+  force?: boolean;
+  /** Lint the working tree changes against HEAD (--working-tree) */
+  workingTree?: boolean;
+  /** Config file given with --config (undefined to discover one) */
+  config?: string;
+  /** File with ignore patterns, one per line, given with --ignore-file */
+  ignoreFile?: string;
+  /** Directory to build the dependency graph of (the graph command) */
+  graphDir?: string;
+  /** Graph output format given with --graph-format (undefined for DOT) */
+  graphFormat?: GraphFormat;
+  /** File whose neighbourhood the graph is restricted to (--focus) */
+  focus?: string;
+  /** Number of edges to follow from the focus file (--depth) */
+  depth?: number;
+  /** Impact query `file[:line|#label]` given to the impact command */
+  impact?: string;
+  /** Follow impact targets transitively (--transitive) */
+  transitive?: boolean;
+  /** Dependents query `file[#label]` given to the dependents command */
+  dependents?: string;
+  /** Directory to analyse for reference cycles and asymmetric cross-references (--analyze) */
+  analyzeDir?: string;
+  /** Require labelled cross-references to be reciprocated (--require-symmetry) */
+  requireSymmetry?: boolean;
+  /** Baseline file of grandfathered findings to suppress (--baseline) */
+  baseline?: string;
+  /** Baseline file to record the current findings in (--write-baseline) */
+  writeBaseline?: string;
+  /** File holding the change description with NO_IFTTT markers, or '-' for stdin (--description) */
+  description?: string;
+  /** Number of warnings allowed before the run fails with exit code 3 (--max-warnings) */
+  maxWarnings?: number;
   error?: string;
 } {
   // Default values
@@ -90,6 +275,7 @@ export function parseCliArgs(rawArgs: string[]): {
   const ignoreList: string[] = [];
   let diffFile: string | undefined;
   let scanDir: string | undefined;
+  let format: OutputFormat | undefined;
 
   // Manual checks for missing values to match legacy behavior
   for (let i = 0; i < rawArgs.length; i++) {
@@ -103,16 +289,26 @@ export function parseCliArgs(rawArgs: string[]): {
     if ((arg === '--scan' || arg === '-s') && rawArgs[i + 1] === undefined) {
       return { warnMode, showHelp, verbose, parallelism, ignoreList, error: 'Missing value for --scan' };
     }
+    if ((arg === '--format' || arg === '-f') && rawArgs[i + 1] === undefined) {
+      return { warnMode, showHelp, verbose, parallelism, ignoreList, error: 'Missing value for --format' };
+    }
+    if ((arg === '--base' || arg === '--head' || arg === '--config' || arg === '--ignore-file' ||
+      arg === '--graph-format' || arg === '--focus' || arg === '--depth' || arg === '--analyze' ||
+      arg === '--baseline' || arg === '--write-baseline' || arg === '--description' ||
+      arg === '--max-warnings') && rawArgs[i + 1] === undefined) {
+      return { warnMode, showHelp, verbose, parallelism, ignoreList, error: `Missing value for ${arg}` };
+    }
   }
 
-  // Use commander to parse arguments
+  // Use commander to parse arguments; the commands below inherit these settings
   const program = new Command();
   program
     .helpOption(false)
+    .addHelpCommand(false)
     .exitOverride();
 
   program
-    .option('-w, --warn', 'Warn on lint errors but exit with code 0')
+    .option('-w, --warn', 'Report errors as warnings, so they fail the run only past --max-warnings')
     .option('-h, --help', 'Show this help message and exit')
     .option('-v, --verbose', 'Show verbose logging (files being processed)')
     .option(
@@ -136,8 +332,97 @@ export function parseCliArgs(rawArgs: string[]): {
       },
       [] as string[]
     )
+    .option('--ignore-file <file>', 'Read ignore patterns from a file, e.g. .iftttignore')
     .option('-s, --scan <dir>', 'Scan given directory for LINT pragmas and perform validation')
-    .argument('[diffFile]', "Diff file (or '-' or omitted to read from stdin)");
+    .option(
+      '-f, --format <format>',
+      `Output format (${OUTPUT_FORMATS.join(', ')})`,
+      (val: string) => {
+        if (!isOutputFormat(val)) {
+          throw new InvalidOptionArgumentError(`Invalid format value: ${val}`);
+        }
+        return val;
+      }
+    )
+    .option('--base <ref>', 'Lint the diff between the merge base of <ref> and the head ref')
+    .option('--head <ref>', 'Head ref to compare with --base (default: HEAD)')
+    .option('--staged', 'Lint the staged changes (git diff --cached)')
+    .option('--semantic', 'Ignore changes to IfChange blocks that only touch whitespace or comments')
+    .option('--pre-commit', 'Lint the staged changes as a git pre-commit hook, with a short summary')
+    .option('--working-tree', 'Lint all uncommitted changes in the working tree (git diff HEAD)')
+    .option('-c, --config <file>', 'Config file to use instead of discovering .iftttlintrc or ifttt-lint.config.json')
+    .option('--analyze <dir>', 'Report reference cycles and one-sided cross-references in the given directory')
+    .option('--description <file>', "Change description with NO_IFTTT markers (commit message or PR body; '-' for stdin)")
+    .option('--baseline <file>', 'With --scan, suppress the findings recorded in the given baseline file')
+    .option('--write-baseline <file>', 'With --scan, record the current findings in the given baseline file')
+    .option('--require-symmetry', 'With --analyze, fail on labelled cross-references that are not reciprocated')
+    .option(
+      '--max-warnings <number>',
+      'Number of warnings allowed before the run fails with exit code 3',
+      (val: string) => {
+        const num = Number(val);
+        if (!Number.isInteger(num) || num < 0) {
+          throw new InvalidOptionArgumentError(`Invalid max-warnings value: ${val}`);
+        }
+        return num;
+      }
+    )
+    .argument('[diffFile]', "Diff file (or '-' or omitted to read from stdin)")
+    .action((_diffFile: string | undefined, _opts: unknown, cmd: Command) => {
+      args = cmd.args;
+    });
+
+  // Commands taking the place of the diff: each records its argument and options
+  let command: 'graph' | 'impact' | 'dependents' | 'install-hook' | undefined;
+  let commandArg: string | undefined;
+  let commandOpts: Record<string, unknown> = {};
+  let args: string[] = [];
+  const runCommand = (name: NonNullable<typeof command>) => (...actionArgs: unknown[]) => {
+    const cmd = actionArgs[actionArgs.length - 1] as Command;
+    command = name;
+    commandArg = cmd.args[0];
+    commandOpts = cmd.opts();
+    args = cmd.args.slice(cmd.registeredArguments.length);
+  };
+  program.command('graph')
+    .description('Print the IfChange/ThenChange dependency graph of the given directory')
+    .argument('<dir>', 'Directory to scan')
+    .option(
+      '--graph-format <format>',
+      `Graph output format (${GRAPH_FORMATS.join(', ')})`,
+      (val: string) => {
+        if (!isGraphFormat(val)) {
+          throw new InvalidOptionArgumentError(`Invalid graph format value: ${val}`);
+        }
+        return val;
+      }
+    )
+    .option('--focus <file>', 'Restrict the graph to the neighbourhood of the given file')
+    .option(
+      '--depth <number>',
+      'Number of edges to follow from the --focus file (default: 1)',
+      (val: string) => {
+        const num = Number(val);
+        if (!Number.isInteger(num) || num < 0) {
+          throw new InvalidOptionArgumentError(`Invalid depth value: ${val}`);
+        }
+        return num;
+      }
+    )
+    .action(runCommand('graph'));
+  program.command('impact')
+    .description('List the ThenChange targets that must change along with the given file, line or label')
+    .argument('<file[:line|#label]>', 'The file, line or label about to be edited')
+    .option('--transitive', 'Also list the targets of those targets')
+    .action(runCommand('impact'));
+  program.command('dependents')
+    .description('List the ThenChange directives in the repository that target the given file or label')
+    .argument('<file[#label]>', 'The file or label to look up')
+    .action(runCommand('dependents'));
+  program.command('install-hook')
+    .description('Write a git pre-commit hook running --pre-commit')
+    .option('--force', 'Replace an existing pre-commit hook')
+    .action(runCommand('install-hook'));
 
   let opts;
   try {
@@ -154,8 +439,7 @@ export function parseCliArgs(rawArgs: string[]): {
   }
 
   // Check for too many positional arguments
-  const args = program.args;
-  if (args.length > 1) {
+  if (args.length > (command ? 0 : 1)) {
     return { warnMode, showHelp, verbose, parallelism, ignoreList, error: 'Too many arguments' };
   }
   // Extract parsed values
@@ -164,21 +448,153 @@ export function parseCliArgs(rawArgs: string[]): {
   verbose = !!opts.verbose;
   parallelism = opts.parallelism;
   ignoreList.push(...opts.ignore);
-  diffFile = args[0];
+  diffFile = command ? undefined : args[0];
   scanDir = opts.scan;
+  format = opts.format;
+  const base: string | undefined = opts.base;
+  const head: string | undefined = opts.head;
+  const preCommit = !!opts.preCommit;
+  const installHook = command === 'install-hook';
+  const force = !!commandOpts.force;
+  // Pre-commit mode lints the staged changes
+  const staged = !!opts.staged || preCommit;
+  const semantic = !!opts.semantic;
+  const workingTree = !!opts.workingTree;
+  const config: string | undefined = opts.config;
+  const ignoreFile: string | undefined = opts.ignoreFile;
+  const graphDir = command === 'graph' ? commandArg : undefined;
+  const graphFormat = commandOpts.graphFormat as GraphFormat | undefined;
+  const focus = commandOpts.focus as string | undefined;
+  const depth = commandOpts.depth as number | undefined;
+  const impact = command === 'impact' ? commandArg : undefined;
+  const transitive = !!commandOpts.transitive;
+  const dependents = command === 'dependents' ? commandArg : undefined;
+  const analyzeDir: string | undefined = opts.analyze;
+  const requireSymmetry = !!opts.requireSymmetry;
+  const baseline: string | undefined = opts.baseline;
+  const writeBaseline: string | undefined = opts.writeBaseline;
+  const description: string | undefined = opts.description;
+  const maxWarnings: number | undefined = opts.maxWarnings;
 
-  return { warnMode, showHelp, verbose, parallelism, ignoreList, diffFile, scanDir };
+  if (preCommit && (base !== undefined || workingTree)) {
+    return { warnMode, showHelp, verbose, parallelism, ignoreList, error: 'Option --pre-commit cannot be combined with --base or --working-tree' };
+  }
+  if (command && (staged || base !== undefined || workingTree || scanDir !== undefined || analyzeDir !== undefined)) {
+    return { warnMode, showHelp, verbose, parallelism, ignoreList, error: `Command ${command} cannot be combined with a lint mode` };
+  }
+  if (command === 'graph' && format !== undefined) {
+    return { warnMode, showHelp, verbose, parallelism, ignoreList, error: 'Command graph takes --graph-format instead of --format' };
+  }
+  if ((command === 'impact' || command === 'dependents') && format !== undefined && format !== 'text' && format !== 'json') {
+    return { warnMode, showHelp, verbose, parallelism, ignoreList, error: `Command ${command} supports only the text and json formats` };
+  }
+  // Validate git diff modes: at most one source of changes
+  const gitModes = [base !== undefined, staged, workingTree].filter(Boolean).length;
+  if (gitModes > 1) {
+    return { warnMode, showHelp, verbose, parallelism, ignoreList, error: 'Options --base, --staged and --working-tree are mutually exclusive' };
+  }
+  if (head !== undefined && base === undefined) {
+    return { warnMode, showHelp, verbose, parallelism, ignoreList, error: 'Option --head requires --base' };
+  }
+  if (gitModes > 0 && (diffFile !== undefined || scanDir !== undefined)) {
+    return { warnMode, showHelp, verbose, parallelism, ignoreList, error: 'Git diff options cannot be combined with a diff file or --scan' };
+  }
+  if (analyzeDir !== undefined && (gitModes > 0 || diffFile !== undefined || scanDir !== undefined)) {
+    return { warnMode, showHelp, verbose, parallelism, ignoreList, error: 'Option --analyze cannot be combined with a diff, git diff options or --scan' };
+  }
+  if (analyzeDir !== undefined && format !== undefined && format !== 'text' && format !== 'json') {
+    return { warnMode, showHelp, verbose, parallelism, ignoreList, error: 'Option --analyze supports only the text and json formats' };
+  }
+  if (analyzeDir === undefined && requireSymmetry) {
+    return { warnMode, showHelp, verbose, parallelism, ignoreList, error: 'Option --require-symmetry requires --analyze' };
+  }
+  if ((baseline !== undefined || writeBaseline !== undefined) && scanDir === undefined) {
+    return { warnMode, showHelp, verbose, parallelism, ignoreList, error: 'Options --baseline and --write-baseline require --scan' };
+  }
+  if (baseline !== undefined && writeBaseline !== undefined) {
+    return { warnMode, showHelp, verbose, parallelism, ignoreList, error: 'Options --baseline and --write-baseline are mutually exclusive' };
+  }
+  if (description !== undefined && (scanDir !== undefined || command !== undefined || analyzeDir !== undefined)) {
+    return { warnMode, showHelp, verbose, parallelism, ignoreList, error: 'Option --description applies only to diff mode' };
+  }
+  if (description === '-' && gitModes === 0 && (diffFile === undefined || diffFile === '-')) {
+    return { warnMode, showHelp, verbose, parallelism, ignoreList, error: 'Option --description - cannot read stdin when the diff is read from stdin' };
+  }
+  if (semantic && (scanDir !== undefined || command !== undefined || analyzeDir !== undefined)) {
+    return { warnMode, showHelp, verbose, parallelism, ignoreList, error: 'Option --semantic applies only to diff mode' };
+  }
+  if (maxWarnings !== undefined && command !== undefined) {
+    return { warnMode, showHelp, verbose, parallelism, ignoreList, error: 'Option --max-warnings applies only to diff, scan and analyze modes' };
+  }
+
+  return {
+    warnMode, showHelp, verbose, parallelism, ignoreList, diffFile, scanDir, format,
+    ...(gitModes > 0 ? { base, head, staged, workingTree } : {}),
+    ...(config !== undefined ? { config } : {}),
+    ...(ignoreFile !== undefined ? { ignoreFile } : {}),
+    ...(graphDir !== undefined ? { graphDir, graphFormat, focus, depth } : {}),
+    ...(impact !== undefined ? { impact, transitive } : {}),
+    ...(dependents !== undefined ? { dependents } : {}),
+    ...(analyzeDir !== undefined ? { analyzeDir, requireSymmetry } : {}),
+    ...(baseline !== undefined ? { baseline } : {}),
+    ...(writeBaseline !== undefined ? { writeBaseline } : {}),
+    ...(description !== undefined ? { description } : {}),
+    ...(semantic ? { semantic } : {}),
+    ...(preCommit ? { preCommit } : {}),
+    ...(installHook ? { installHook, force } : {}),
+    ...(maxWarnings !== undefined ? { maxWarnings } : {})
+  };
 }
 /**
- * Scans a directory for files containing "LINT." and validates directive formatting in parallel.
- * Detects duplicate IfChange labels or Label names within a single file.
- * @param dir Directory path to scan.
- * @param parallelism Number of worker threads to use for parsing.
+ * Prints a report in the requested format and, for GitHub output running inside
+ * GitHub Actions, appends a job summary to `$GITHUB_STEP_SUMMARY`. GitHub annotation paths
+ * are relative to the repository root, detected as for `//path` targets.
+ * @param report The lint or scan result.
+ * @param format Output format to use.
+ * @param warnMode Whether findings are reported as warnings.
+ * @param config The project configuration, if any.
+ * @param dir Directory the repository root is detected from (defaults to the cwd).
+ */
+async function emitReport(
+  report: LintReport,
+  format: OutputFormat,
+  warnMode: boolean,
+  config?: ProjectConfig,
+  dir?: string
+): Promise<void> {
+  const root = format === 'github' ? await detectRoot(config, dir) : undefined;
+  printReport(report, format, undefined, { warn: warnMode, width: process.stdout.columns, root });
+  const summaryFile = process.env.GITHUB_STEP_SUMMARY;
+  if (format === 'github' && summaryFile) {
+    await fs.appendFile(summaryFile, formatGithubSummary(report, warnMode, root), 'utf-8');
+  }
+}
+
+/**
+ * Optional hooks for runScan, and the project configuration.
+ */
+export interface ScanOptions extends ConfigOptions {
+  /** Ignore patterns for files to skip, in addition to those from the config. */
+  ignoreList?: string[];
+  /** Called for each file containing LINT directives that is validated. */
+  onFile?: (file: string) => void;
+  /**
+   * Repository root for `//path` targets and anchored ignore patterns (defaults to the
+   * config root, else the git top level of the scanned directory, else the directory).
+   */
+  root?: string;
+  /** Directive syntax to accept (defaults to the config `dialect`, else `auto`). */
+  dialect?: DirectiveDialect;
+}
+
+/**
+ * Finds the files under `dir` that contain "LINT." directives, using ripgrep.
+ * @param dir Directory to search.
+ * @param ignore Matcher for files to skip.
  * @param verbose Whether to enable verbose logging.
- * @returns Promise resolving to exit code: 0 if no errors, 1 if validation errors found.
+ * @returns Paths of the matching files, as printed by ripgrep.
  */
-export async function runScan(dir: string, parallelism: number, verbose: boolean): Promise<number> {
-  // Use ripgrep to find files containing any "LINT." pragmas
+async function findLintFiles(dir: string, ignore: IgnoreMatcher, verbose: boolean): Promise<string[]> {
   // Use ripgrep binary from vscode-ripgrep package
   const rg = spawn(rgPath, ['--files-with-matches', 'LINT\\.', dir]);
   let stdout = '';
@@ -194,47 +610,370 @@ export async function runScan(dir: string, parallelism: number, verbose: boolean
       resolve();
     });
   });
-  const files = stdout.split('\n').filter(f => f);
-  if (files.length === 0) {
-    if (verbose) verboseLog(`No files containing 'LINT.' found in ${dir}`);
-    return 0;
+  const files = stdout.split('\n').filter(f => f).filter(file => {
+    const skip = ignore.ignores(file);
+    if (skip && verbose) verboseLog(`Skipping scan for ignored file: ${file}`);
+    return !skip;
+  });
+  if (files.length === 0 && verbose) verboseLog(`No files containing 'LINT.' found in ${dir}`);
+  return files;
+}
+
+/**
+ * Checks the ThenChange targets of a scanned file: each target file must exist and, if the
+ * target names a label, define it as a Label or a labeled IfChange.
+ * @param file The scanned file.
+ * @param directives Directives parsed from the file.
+ * @param root Repository root for `//path` targets.
+ * @param parse Parses a target file's directives.
+ * @param skip Whether a resolved target path and label are ignored.
+ * @returns Diagnostics for targets that do not resolve.
+ */
+async function validateTargets(
+  file: string,
+  directives: LintDirective[],
+  root: string,
+  parse: (targetPath: string) => Promise<LintDirective[]>,
+  skip: (targetPath: string, label?: string) => boolean
+): Promise<LintDiagnostic[]> {
+  const diagnostics: LintDiagnostic[] = [];
+  for (const d of directives) {
+    if (d.kind !== 'ThenChange') continue;
+    const target = (d as ThenChangeDirective).target;
+    const [targetName, label] = target.split('#');
+    const targetPath = resolveTargetPath(file, targetName, root);
+    if (skip(targetPath, label)) continue;
+    try {
+      await fs.access(targetPath);
+    } catch {
+      diagnostics.push({
+        kind: 'target-not-found',
+        file,
+        line: d.line,
+        target,
+        targetPath,
+        thenLine: d.line,
+        message: `ThenChange '${target}' (line ${d.line}): target file '${targetPath}' not found.`
+      });
+      continue;
+    }
+    if (!label) continue;
+    let targetDirectives: LintDirective[];
+    try {
+      targetDirectives = await parse(targetPath);
+    } catch {
+      // Malformed target: reported when the target itself is scanned
+      continue;
+    }
+    const labels = targetDirectives.flatMap(t =>
+      t.kind === 'Label' ? [(t as LabelDirective).name]
+        : t.kind === 'IfChange' && (t as IfChangeDirective).label ? [(t as IfChangeDirective).label!] : []
+    );
+    if (!labels.includes(label)) {
+      diagnostics.push({
+        kind: 'label-not-found',
+        file,
+        line: d.line,
+        label,
+        target,
+        targetPath,
+        thenLine: d.line,
+        message: `ThenChange '${target}' (line ${d.line}): ` +
+          `label '${label}' not found in '${targetPath}'. Available labels: ${labels.join(', ') || 'none'}`
+      });
+    }
   }
+  return diagnostics;
+}
+
+/**
+ * Scans a directory for files containing "LINT." and validates their directives in parallel.
+ * Detects duplicate labels, `LINT.NoCheck` pragmas without a reason and structural errors
+ * (unpaired, nested or overlapping directives) within each file, and ThenChange targets whose
+ * file or label does not exist.
+ * @param dir Directory path to scan.
+ * @param parallelism Number of worker threads to use for parsing.
+ * @param verbose Whether to enable verbose logging.
+ * @param options Optional hooks, e.g. to observe each validated file.
+ * @returns Promise resolving to the list of diagnostics (empty if no validation errors).
+ */
+export async function runScan(
+  dir: string,
+  parallelism: number,
+  verbose: boolean,
+  options: ScanOptions = {}
+): Promise<LintDiagnostic[]> {
+  const config = await resolveConfig(options);
+  if (config && verbose) verboseLog(`Using config file: ${config.file}`);
+  const root = options.root !== undefined ? path.resolve(options.root) : await detectRoot(config, dir);
+  // Skip files excluded by file-level ignore patterns; labeled patterns do not exclude files
+  const ignore = createIgnoreMatcher([...(config?.ignore ?? []), ...(options.ignoreList ?? [])], root);
+  const files = await findLintFiles(dir, ignore, verbose);
+  if (files.length === 0) return [];
   // Create worker pool for parallel directive parsing
   const workerScript = path.resolve(__dirname, '../dist/parserWorker.js');
   const pool = new Piscina({ filename: workerScript, maxThreads: parallelism, recordTiming: false });
-  let errors = 0;
+  const diagnostics: LintDiagnostic[] = [];
+  // Cache parse promises, so target files are parsed once however many files name them
+  const parseCache = new Map<string, Promise<LintDirective[]>>();
+  const parse = (file: string): Promise<LintDirective[]> => {
+    let parsePromise = parseCache.get(file);
+    if (!parsePromise) {
+      const task: ParserTask = { filePath: file, dialect: options.dialect ?? config?.dialect };
+      parsePromise = pool.runTask(task) as Promise<LintDirective[]>;
+      parseCache.set(file, parsePromise);
+    }
+    return parsePromise;
+  };
   // Dispatch validation tasks in parallel
   const tasks = files.map(async file => {
     if (verbose) verboseLog(`Validating file: ${file}`);
+    options.onFile?.(file);
+    let directives: LintDirective[];
     try {
-      const directives = (await pool.runTask(file)) as LintDirective[];
-      errors += validateDirectiveUniqueness(directives, file, msg => console.error(msg));
+      directives = await parse(file);
+      diagnostics.push(...validateDirectiveUniqueness(directives, file));
+      diagnostics.push(...validateSuppressions(directives, file));
     } catch (err: unknown) {
-      console.error(err instanceof Error ? err.message : err);
-      errors++;
+      const message = err instanceof Error ? err.message : String(err);
+      // Parser errors name the offending location as "at <file>:<line>: ..."
+      const lineMatch = / at .+:(\d+): /.exec(message);
+      diagnostics.push({
+        kind: 'malformed-directive',
+        file,
+        line: lineMatch ? Number(lineMatch[1]) : 1,
+        message
+      });
+      return;
+    }
+    // Unpaired directives are skipped like in diff mode: by IfChange label or ThenChange target
+    const skipTarget = (targetPath: string, label?: string) => ignore.ignores(targetPath, label);
+    for (const d of validateDirectiveStructure(directives, file)) {
+      if (d.kind === 'missing-then-change' && d.ifLabel && ignore.ignores(file, d.ifLabel)) continue;
+      if (d.kind === 'orphan-then-change' && d.target !== undefined) {
+        const [targetName, label] = d.target.split('#');
+        if (skipTarget(resolveTargetPath(file, targetName, root), label)) continue;
+      }
+      diagnostics.push(d);
     }
+    diagnostics.push(...await validateTargets(file, directives, root, parse, skipTarget));
   });
   await Promise.all(tasks);
   await pool.destroy();
-  return errors > 0 ? 1 : 0;
+  const withLevels = withSeverity(diagnostics);
+  return config ? applyConfig(withLevels, config) : withLevels;
+}
+/**
+ * Parses the directives of the given files in a worker pool. Files whose directives cannot
+ * be parsed are returned without directives.
+ * @param files Files to parse.
+ * @param parallelism Number of worker threads to use.
+ * @param dialect Directive syntax to accept.
+ * @param verbose Whether to enable verbose logging.
+ * @returns The directives of each file, in input order.
+ */
+async function parseLintFiles(
+  files: string[],
+  parallelism: number,
+  dialect: DirectiveDialect | undefined,
+  verbose: boolean
+): Promise<FileDirectives[]> {
+  const workerScript = path.resolve(__dirname, '../dist/parserWorker.js');
+  const pool = new Piscina({ filename: workerScript, maxThreads: parallelism, recordTiming: false });
+  const parsed = await Promise.all(files.map(async (file): Promise<FileDirectives> => {
+    if (verbose) verboseLog(`Reading directives from: ${file}`);
+    const task: ParserTask = { filePath: file, dialect };
+    try {
+      return { file, directives: (await pool.runTask(task)) as LintDirective[] };
+    } catch (err: unknown) {
+      if (verbose) verboseLog(`Could not parse ${file}: ${err instanceof Error ? err.message : String(err)}`);
+      return { file, directives: [] };
+    }
+  }));
+  await pool.destroy();
+  return parsed;
+}
+
+/**
+ * Options for runGraph: which files to scan, the focus of the graph, and the project configuration.
+ */
+export interface GraphOptions extends ConfigOptions {
+  /** Ignore patterns for files to skip, in addition to those from the config. */
+  ignoreList?: string[];
+  /** Repository root for node names and `//path` targets (detected as for runScan). */
+  root?: string;
+  /** Directive syntax to accept (defaults to the config `dialect`, else `auto`). */
+  dialect?: DirectiveDialect;
+  /** Restrict the graph to the neighbourhood of this file (relative to the cwd, or absolute). */
+  focus?: string;
+  /** Number of edges to follow from the focus file (defaults to 1). */
+  depth?: number;
+}
+
+/**
+ * Scans a directory for files containing "LINT." and builds their IfChange→ThenChange
+ * dependency graph. Files whose directives cannot be parsed appear without edges.
+ * @param dir Directory path to scan.
+ * @param parallelism Number of worker threads to use for parsing.
+ * @param verbose Whether to enable verbose logging.
+ * @param options Ignore patterns, focus file and configuration.
+ * @returns Promise resolving to the graph, with node names relative to the repository root.
+ */
+export async function runGraph(
+  dir: string,
+  parallelism: number,
+  verbose: boolean,
+  options: GraphOptions = {}
+): Promise<DependencyGraph> {
+  const config = await resolveConfig(options);
+  if (config && verbose) verboseLog(`Using config file: ${config.file}`);
+  const root = options.root !== undefined ? path.resolve(options.root) : await detectRoot(config, dir);
+  const ignore = createIgnoreMatcher([...(config?.ignore ?? []), ...(options.ignoreList ?? [])], root);
+  const files = await findLintFiles(dir, ignore, verbose);
+  const parsed = await parseLintFiles(files, parallelism, options.dialect ?? config?.dialect, verbose);
+  const graph = buildGraph(parsed, root);
+  return options.focus !== undefined
+    ? filterNeighbourhood(graph, toNodeFile(options.focus, root), options.depth)
+    : graph;
+}
+
+/**
+ * Options for runAnalysis: the graph to build, and whether cross-references must be symmetric.
+ */
+export interface AnalysisRunOptions extends GraphOptions {
+  /** Require labelled cross-references to be reciprocated. */
+  requireSymmetry?: boolean;
+}
+
+/**
+ * Scans a directory, builds its dependency graph and reports reference cycles and
+ * asymmetric cross-references (see analyzeGraph).
+ * @param dir Directory path to scan.
+ * @param parallelism Number of worker threads to use for parsing.
+ * @param verbose Whether to enable verbose logging.
+ * @param options Ignore patterns, symmetry requirement and configuration.
+ * @returns Promise resolving to the analysis, with node names relative to the repository root.
+ */
+export async function runAnalysis(
+  dir: string,
+  parallelism: number,
+  verbose: boolean,
+  options: AnalysisRunOptions = {}
+): Promise<GraphAnalysis> {
+  const graph = await runGraph(dir, parallelism, verbose, options);
+  return analyzeGraph(graph, { requireSymmetry: options.requireSymmetry });
+}
+/**
+ * Options for runImpact: impact query options plus the project configuration.
+ */
+export interface RunImpactOptions extends ImpactOptions, ConfigOptions {}
+
+/**
+ * Lists the files and labels that must change along with a file, line or label, using the
+ * configured repository root and dialect unless given.
+ * @param query The file, line or label about to be edited.
+ * @param options Whether to follow targets transitively, and the project configuration.
+ * @returns Promise resolving to the ThenChange targets that must change.
+ */
+export async function runImpact(query: ImpactQuery, options: RunImpactOptions = {}): Promise<ImpactEntry[]> {
+  const config = await resolveConfig(options);
+  const root = options.root !== undefined ? path.resolve(options.root) : await detectRoot(config);
+  return findImpact(query, { ...options, root, dialect: options.dialect ?? config?.dialect });
+}
+/**
+ * Options for runDependents: which tree to search, and the project configuration.
+ */
+export interface DependentsOptions extends ConfigOptions {
+  /** Directory to search (defaults to the repository root). */
+  dir?: string;
+  /** Ignore patterns for files to skip, in addition to those from the config. */
+  ignoreList?: string[];
+  /** Repository root for `//path` targets (detected as for runScan). */
+  root?: string;
+  /** Directive syntax to accept (defaults to the config `dialect`, else `auto`). */
+  dialect?: DirectiveDialect;
+}
+
+/**
+ * Scans the tree for ThenChange directives whose target is the given file or label.
+ * @param query The file or label to look up.
+ * @param parallelism Number of worker threads to use for parsing.
+ * @param verbose Whether to enable verbose logging.
+ * @param options Directory to search, ignore patterns and configuration.
+ * @returns Promise resolving to the matching directives, ordered by file and line.
+ */
+export async function runDependents(
+  query: DependentsQuery,
+  parallelism: number,
+  verbose: boolean,
+  options: DependentsOptions = {}
+): Promise<Dependent[]> {
+  const config = await resolveConfig(options);
+  if (config && verbose) verboseLog(`Using config file: ${config.file}`);
+  const root = options.root !== undefined ? path.resolve(options.root) : await detectRoot(config, options.dir);
+  const ignore = createIgnoreMatcher([...(config?.ignore ?? []), ...(options.ignoreList ?? [])], root);
+  // Search the repository root by default, naming files relative to the cwd
+  const dir = options.dir ?? (path.relative(process.cwd(), root) || '.');
+  const files = (await findLintFiles(dir, ignore, verbose)).map(file => path.normalize(file));
+  const parsed = await parseLintFiles(files, parallelism, options.dialect ?? config?.dialect, verbose);
+  return findDependents(parsed, query, root);
 }
+
 // Execute when run as a CLI script
 if (require.main === module) {
   // Parse CLI arguments
   const rawArgs = process.argv.slice(2);
   // Parse CLI arguments, including optional ignore patterns
-  const { warnMode, showHelp, verbose, parallelism, ignoreList, diffFile, scanDir, error } = parseCliArgs(rawArgs);
+  const {
+    warnMode, showHelp, verbose, parallelism, ignoreList, diffFile, scanDir, format,
+    base, head, staged, workingTree, config: configFile, ignoreFile, graphDir, graphFormat, focus, depth,
+    impact, transitive, dependents, analyzeDir, requireSymmetry, baseline: baselineFile,
+    writeBaseline: writeBaselineFile, description: descriptionFile, maxWarnings, semantic, preCommit, installHook, force, error
+  } = parseCliArgs(rawArgs);
   const usage = [
     'Usage: ifttt-lint [options] [diffFile]',
+    '       ifttt-lint [options] graph <dir> [--graph-format <format>] [--focus <file>] [--depth <number>]',
+    '       ifttt-lint [options] impact <file[:line|#label]> [--transitive]',
+    '       ifttt-lint [options] dependents <file[#label]>',
+    '       ifttt-lint install-hook [--force]',
     '',
     'Options:',
     '  -h, --help       Show this help message and exit',
-    '  -w, --warn       Warn on lint errors but exit with code 0',
+    '  -w, --warn       Report errors as warnings; the run fails only past --max-warnings',
+    '  --max-warnings <number>  Exit with code 3 when there are more warnings than this (default: unlimited)',
     '  -v, --verbose    Show verbose logging (files being processed)',
     '  -i, --ignore     Ignore specified file or file#label during linting (repeatable)',
+    '  --ignore-file <file>  Read ignore patterns from a file, e.g. .iftttignore',
     '  -s, --scan <dir>  Scan given directory for LINT pragmas and perform validation',
+    '  --baseline <file>  With --scan, suppress the findings recorded in a baseline file',
+    '  --write-baseline <file>  With --scan, record the current findings in a baseline file and exit 0',
+    `  -f, --format <format>  Output format: ${OUTPUT_FORMATS.join(', ')} (default: text)`,
+    '  --base <ref>     Lint changes since the merge base of <ref> and the head ref (computed with git)',
+    '  --head <ref>     Head ref to compare with --base (default: HEAD)',
+    '  --staged         Lint the staged changes (git diff --cached)',
+    '  --pre-commit     Lint the staged changes as read from the index, with a short summary',
+    '  --semantic       Ignore changes to IfChange blocks that only touch whitespace or comments',
+    '  --working-tree   Lint all uncommitted changes against HEAD',
+    "  --description <file>  Change description with NO_IFTTT markers ('-' for stdin; default: commit messages with --base)",
+    '  -c, --config <file>  Config file (default: nearest .iftttlintrc or ifttt-lint.config.json)',
+    '  --analyze <dir>  Report reference cycles and one-sided cross-references in the given directory',
+    '  --require-symmetry  With --analyze, fail on labelled cross-references that are not reciprocated',
     '',
-    "If diffFile is '-' or omitted, input is read from stdin"
+    'Commands:',
+    '  graph <dir>      Print the IfChange/ThenChange dependency graph of the given directory',
+    `    --graph-format <format>  Graph output format: ${GRAPH_FORMATS.join(', ')} (default: dot)`,
+    '    --focus <file>   Restrict the graph to the neighbourhood of the given file',
+    '    --depth <number>  Number of edges to follow from the --focus file (default: 1)',
+    '  impact <file[:line|#label]>  List the targets that must change with the given file, line or label',
+    '    --transitive     Also list the targets of those targets',
+    '  dependents <file[#label]>  List the ThenChange directives that target the given file or label',
+    '  install-hook     Write a git pre-commit hook running --pre-commit',
+    '    --force          Replace an existing pre-commit hook',
+    '',
+    "If diffFile is '-' or omitted, input is read from stdin; name a diff file that shares a command's",
+    "name with a path, e.g. './graph'.",
+    '',
+    'Exit codes: 0 success, 1 errors reported, 2 fatal error, 3 more warnings than --max-warnings'
   ].join('\n');
   if (showHelp) {
     console.log(usage);
@@ -243,36 +982,169 @@ if (require.main === module) {
   if (error) {
     console.error(error);
     console.log(usage);
-    process.exit(2);
+    process.exit(EXIT_CODES.fatal);
   }
-  if (scanDir) {
+  // Load the project config; CLI flags take precedence over its settings. install-hook does not use it
+  const configPromise = installHook
+    ? Promise.resolve(undefined)
+    : configFile ? loadConfig(configFile) : loadProjectConfig();
+  // Patterns from --ignore-file come before --ignore, so the command line can negate them
+  const loadIgnores = async (): Promise<string[]> =>
+    ignoreFile ? [...await loadIgnoreFile(ignoreFile), ...ignoreList] : ignoreList;
+  if (installHook) {
+    installPreCommitHook({ force })
+      .then(file => {
+        console.log(`Installed pre-commit hook: ${file}`);
+        process.exit(0);
+      })
+      .catch(err => {
+        console.error(err instanceof Error ? err.message : err);
+        process.exit(EXIT_CODES.fatal);
+      });
+  } else if (impact) {
+    const query = parseImpactQuery(impact);
+    configPromise
+      .then(async config => {
+        const entries = await runImpact(query, { config: config ?? null, transitive });
+        const impactFormat = format ?? config?.format;
+        console.log(impactFormat === 'json' ? formatImpactJson(query, entries) : formatImpactText(entries));
+        process.exit(0);
+      })
+      .catch(err => {
+        console.error(err.stack || err);
+        process.exit(EXIT_CODES.fatal);
+      });
+  } else if (dependents) {
+    const query = parseDependentsQuery(dependents);
+    const dependentsParallelism = parallelism >= 0 ? parallelism : Math.max(os.cpus().length, 1);
+    configPromise
+      .then(async config => {
+        const found = await runDependents(query, dependentsParallelism, verbose, {
+          config: config ?? null,
+          ignoreList: await loadIgnores()
+        });
+        const dependentsFormat = format ?? config?.format;
+        console.log(dependentsFormat === 'json' ? formatDependentsJson(query, found) : formatDependentsText(found));
+        process.exit(0);
+      })
+      .catch(err => {
+        console.error(err.stack || err);
+        process.exit(EXIT_CODES.fatal);
+      });
+  } else if (analyzeDir) {
+    const analyzeParallelism = parallelism >= 0 ? parallelism : Math.max(os.cpus().length, 1);
+    configPromise
+      .then(async config => {
+        const analysis = await runAnalysis(analyzeDir, analyzeParallelism, verbose, {
+          config: config ?? null,
+          ignoreList: await loadIgnores(),
+          requireSymmetry
+        });
+        const analyzeFormat = format ?? config?.format;
+        console.log(analyzeFormat === 'json' ? formatAnalysisJson(analysis) : formatAnalysisText(analysis));
+        process.exit(analysisExitCode(analysis, warnMode, maxWarnings ?? config?.maxWarnings));
+      })
+      .catch(err => {
+        console.error(err.stack || err);
+        process.exit(EXIT_CODES.fatal);
+      });
+  } else if (graphDir) {
+    const graphParallelism = parallelism >= 0 ? parallelism : Math.max(os.cpus().length, 1);
+    configPromise
+      .then(async config => {
+        const graph = await runGraph(graphDir, graphParallelism, verbose, {
+          config: config ?? null,
+          ignoreList: await loadIgnores(),
+          focus,
+          depth
+        });
+        console.log(formatGraph(graph, graphFormat ?? 'dot'));
+        process.exit(0);
+      })
+      .catch(err => {
+        console.error(err.stack || err);
+        process.exit(EXIT_CODES.fatal);
+      });
+  } else if (scanDir) {
     // Determine parallelism for scan mode
     const scanParallelism = parallelism >= 0 ? parallelism : Math.max(os.cpus().length, 1);
-    runScan(scanDir, scanParallelism, verbose)
-      .then(code => process.exit(code))
+    const checks: LintCheck[] = [];
+    configPromise
+      .then(async config => {
+        let diagnostics = await runScan(scanDir, scanParallelism, verbose, {
+          config: config ?? null,
+          ignoreList: await loadIgnores(),
+          onFile: file => checks.push({ file })
+        });
+        if (writeBaselineFile) {
+          const recorded = createBaseline(diagnostics, writeBaselineFile);
+          await writeBaseline(recorded);
+          console.log(`Wrote ${diagnostics.length} finding(s) in ${recorded.entries.length} entries to ${writeBaselineFile}`);
+          process.exit(0);
+        }
+        if (baselineFile) {
+          const result = applyBaseline(diagnostics, await loadBaseline(baselineFile));
+          if (verbose) verboseLog(`Suppressed ${result.suppressed} finding(s) recorded in ${baselineFile}`);
+          diagnostics = result.diagnostics;
+        }
+        const reported = warnMode ? demoteErrors(diagnostics) : diagnostics;
+        const exitCode = exitCodeFor(reported, maxWarnings ?? config?.maxWarnings);
+        await emitReport({ mode: 'scan', diagnostics: reported, exitCode, checks }, format ?? config?.format ?? 'text', warnMode,
+          config, scanDir);
+        process.exit(exitCode);
+      })
       .catch(err => {
         console.error(err.stack || err);
-        process.exit(2);
+        process.exit(EXIT_CODES.fatal);
       });
   } else {
     // Determine default parallelism (number of CPU cores)
     const defaultParallelism = Math.max(os.cpus().length, 1);
-    // Execute lint, passing through ignore patterns
-    runLint(
-      { filePath: diffFile, stdin: process.stdin },
-      parallelism >= 0 ? parallelism : defaultParallelism,
-      verbose,
-      ignoreList
-    )
-      .then(code => {
-        if (warnMode && code === 1) {
-          process.exit(0);
-        }
-        process.exit(code);
+    // Execute lint, passing through ignore patterns and collecting linted pairs for reporters
+    const checks: LintCheck[] = [];
+    const useGit = base !== undefined || staged || workingTree;
+    // The change description comes from a file or stdin; with --base, runLint reads the commit messages
+    const readDescription = async (): Promise<string | undefined> => {
+      if (descriptionFile === undefined) return undefined;
+      if (descriptionFile !== '-') return fs.readFile(descriptionFile, 'utf-8');
+      let data = '';
+      process.stdin.setEncoding('utf-8');
+      for await (const chunk of process.stdin) data += chunk;
+      return data;
+    };
+    configPromise
+      .then(async config => {
+        const description = await readDescription();
+        const diagnostics = await runLint(
+          useGit
+            ? { git: { base, head, staged, workingTree } }
+            : { filePath: diffFile, stdin: process.stdin },
+          parallelism >= 0 ? parallelism : defaultParallelism,
+          verbose,
+          await loadIgnores(),
+          {
+            config: config ?? null,
+            ...(description !== undefined ? { description } : {}),
+            ...(semantic ? { semantic } : {}),
+            onPair: p => checks.push({
+              file: p.file,
+              line: p.ifLine,
+              ifLabel: p.ifLabel,
+              target: p.thenTarget,
+              thenLine: p.thenLine
+            })
+          }
+        );
+        const reported = warnMode ? demoteErrors(diagnostics) : diagnostics;
+        const exitCode = exitCodeFor(reported, maxWarnings ?? config?.maxWarnings);
+        // The pre-commit hook prints a summary unless a format was asked for on the command line
+        const diffFormat = format ?? (preCommit ? 'summary' : config?.format ?? 'text');
+        await emitReport({ mode: 'diff', diagnostics: reported, exitCode, checks }, diffFormat, warnMode, config);
+        process.exit(exitCode);
       })
       .catch(err => {
         console.error(err.stack || err);
-        process.exit(2);
+        process.exit(EXIT_CODES.fatal);
       });
   }
 }
@@ -1,10 +1,23 @@
-import { parseFileDirectives } from './DirectiveParser';
+import { parseFileDirectives, parseDirectivesFromContent, DirectiveDialect } from './DirectiveParser';
+
+/**
+ * A worker task: either a file path to read from disk, or a file path with options: the
+ * content to parse in place of the file (e.g. a pre-image from git or reconstructed from
+ * diff hunks) and the directive dialect to accept.
+ */
+export type ParserTask = string | { filePath: string; content?: string; dialect?: DirectiveDialect };
 
 /**
  * Worker task: parse lint directives from a file.
- * @param filePath Path to the source file.
+ * @param task Path to the source file, or a path with the content and dialect to parse.
  * @returns Array of parsed directives.
  */
-export default async function parserWorker(filePath: string) {
-  return await parseFileDirectives(filePath);
-}
\ No newline at end of file
+export default async function parserWorker(task: ParserTask) {
+  if (typeof task === 'string') {
+    return await parseFileDirectives(task);
+  }
+  if (task.content === undefined) {
+    return await parseFileDirectives(task.filePath, task.dialect);
+  }
+  return parseDirectivesFromContent(task.content, task.filePath, task.dialect);
+}
@@ -0,0 +1,73 @@
+import { applyBaseline, createBaseline, fingerprintDiagnostic, formatBaseline, loadBaseline, writeBaseline } from '../src/Baseline';
+import { LintDiagnostic } from '../src/Diagnostics';
+import { runScan } from '../src/main';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+const notFound = (line: number, target = 'b.ts#x'): LintDiagnostic => ({
+  kind: 'label-not-found', file: '/repo/src/a.ts', line, label: 'x', target, message: `line ${line}`
+});
+
+describe('baseline', () => {
+  it('fingerprints findings by kind, file, label and target, not line', () => {
+    expect(fingerprintDiagnostic(notFound(3), '/repo')).toBe(fingerprintDiagnostic(notFound(40), '/repo'));
+    expect(fingerprintDiagnostic(notFound(3), '/repo')).not.toBe(fingerprintDiagnostic(notFound(3, 'c.ts#x'), '/repo'));
+    expect(fingerprintDiagnostic(notFound(3), '/repo')).toMatch(/^[0-9a-f]{16}$/);
+    // Paths are relative to the baseline's directory, so the cwd does not matter
+    expect(fingerprintDiagnostic(notFound(3), '/repo')).not.toBe(fingerprintDiagnostic(notFound(3), '/'));
+  });
+
+  it('records findings with counts, relative to the baseline file', () => {
+    const baseline = createBaseline([notFound(3), notFound(9)], '/repo/baseline.json');
+    expect(baseline.entries).toEqual([{
+      fingerprint: fingerprintDiagnostic(notFound(3), '/repo'),
+      kind: 'label-not-found', file: 'src/a.ts', label: 'x', target: 'b.ts#x', count: 2
+    }]);
+    expect(formatBaseline({ file: '/repo/baseline.json', entries: [] })).toBe('{\n  "version": 1,\n  "entries": []\n}\n');
+  });
+
+  it('suppresses recorded findings and reports new and stale ones', () => {
+    const baseline = createBaseline([notFound(3), notFound(5, 'gone.ts')], '/repo/baseline.json');
+    baseline.source = formatBaseline(baseline);
+    const result = applyBaseline([notFound(4), notFound(4), notFound(8, 'new.ts')], baseline);
+    expect(result.suppressed).toBe(1);
+    expect(result.stale.map(e => e.target)).toEqual(['gone.ts']);
+    expect(result.diagnostics.map(d => d.kind)).toEqual(['label-not-found', 'label-not-found', 'stale-baseline-entry']);
+    const stale = result.diagnostics[2];
+    // Entries start on line 4, one per line
+    const line = 4 + baseline.entries.findIndex(e => e.target === 'gone.ts');
+    expect(stale).toMatchObject({ severity: 'warning', line, target: 'gone.ts' });
+    expect(stale.message).toContain('no longer matches a finding');
+  });
+
+  it('writes, loads and validates baseline files', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ifttt-baseline-'));
+    const file = path.join(dir, 'baseline.json');
+    const baseline = createBaseline([notFound(3)], file);
+    await writeBaseline(baseline);
+    expect(await loadBaseline(file)).toEqual({ ...baseline, source: formatBaseline(baseline) });
+    await fs.writeFile(file, JSON.stringify({ version: 1, entries: [{ fingerprint: 'f', file: 'a.ts', kind: 'nope' }] }));
+    await expect(loadBaseline(file)).rejects.toThrow(`Invalid baseline file ${file}: entries[0] has an invalid kind: nope`);
+    await fs.writeFile(file, '{');
+    await expect(loadBaseline(file)).rejects.toThrow(/Could not read baseline file/);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('grandfathers scan findings', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ifttt-baseline-scan-'));
+    await fs.writeFile(path.join(dir, 'a.ts'), ['// LINT.IfChange', '// LINT.ThenChange("missing.ts")'].join('\n'));
+    const file = path.join(dir, 'baseline.json');
+    const before = await runScan(dir, 1, false, { config: null, root: dir });
+    await writeBaseline(createBaseline(before, file));
+    // A new violation elsewhere in the file still fails
+    await fs.writeFile(path.join(dir, 'a.ts'), [
+      '// moved down', '// LINT.IfChange', '// LINT.ThenChange("missing.ts")',
+      '// LINT.IfChange', '// LINT.ThenChange("other.ts")'
+    ].join('\n'));
+    const after = applyBaseline(await runScan(dir, 1, false, { config: null, root: dir }), await loadBaseline(file));
+    expect(after.suppressed).toBe(1);
+    expect(after.diagnostics.map(d => `${d.kind} ${d.target}`)).toEqual(['target-not-found other.ts']);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
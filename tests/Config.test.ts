@@ -0,0 +1,152 @@
+import { applyConfig, findConfigFile, loadConfig, loadProjectConfig } from '../src/Config';
+import { LintDiagnostic } from '../src/Diagnostics';
+import { runLint, runScan } from '../src/main';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('config discovery and loading', () => {
+  let tmpDir: string;
+  beforeEach(async () => {
+    tmpDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'ifttt-config-')));
+  });
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('finds the nearest config file walking up from a directory', async () => {
+    const nested = path.join(tmpDir, 'a', 'b');
+    await fs.mkdir(nested, { recursive: true });
+    await fs.writeFile(path.join(tmpDir, 'ifttt-lint.config.json'), '{}');
+    expect(await findConfigFile(nested)).toBe(path.join(tmpDir, 'ifttt-lint.config.json'));
+    // .iftttlintrc wins within the same directory
+    await fs.writeFile(path.join(tmpDir, '.iftttlintrc'), '{}');
+    expect(await findConfigFile(nested)).toBe(path.join(tmpDir, '.iftttlintrc'));
+    await fs.writeFile(path.join(tmpDir, 'a', '.iftttlintrc'), '{"format": "json"}');
+    expect((await loadProjectConfig(nested))?.format).toBe('json');
+  });
+
+  it('resolves the root relative to the config file and validates fields', async () => {
+    const file = path.join(tmpDir, '.iftttlintrc');
+    await fs.writeFile(file, JSON.stringify({
+      root: '..',
+      ignore: ['*.md'],
+      severity: { 'duplicate-label': 'warning' },
+      overrides: [{ files: 'gen/*', severity: { '*': 'off' } }]
+    }));
+    const config = await loadConfig(file);
+    expect(config).toEqual({
+      file,
+      root: path.dirname(tmpDir),
+      ignore: ['*.md'],
+      format: undefined,
+      severity: { 'duplicate-label': 'warning' },
+      overrides: [{ files: ['gen/*'], severity: { '*': 'off' } }]
+    });
+
+    await fs.writeFile(file, JSON.stringify({ severity: { 'no-such-rule': 'error' } }));
+    await expect(loadConfig(file)).rejects.toThrow("severity has unknown finding type 'no-such-rule'");
+    await fs.writeFile(file, JSON.stringify({ format: 'xml' }));
+    await expect(loadConfig(file)).rejects.toThrow('invalid format value: xml');
+    await fs.writeFile(file, JSON.stringify({ dialect: 'google' }));
+    await expect(loadConfig(file)).rejects.toThrow('invalid dialect value: google');
+    await fs.writeFile(file, JSON.stringify({ dialect: 'chromium' }));
+    expect((await loadConfig(file)).dialect).toBe('chromium');
+    await fs.writeFile(file, JSON.stringify({ semantic: true }));
+    expect((await loadConfig(file)).semantic).toBe(true);
+    await fs.writeFile(file, JSON.stringify({ semantic: 'yes' }));
+    await expect(loadConfig(file)).rejects.toThrow('semantic must be a boolean');
+    await fs.writeFile(file, JSON.stringify({ maxWarnings: 5 }));
+    expect((await loadConfig(file)).maxWarnings).toBe(5);
+    await fs.writeFile(file, JSON.stringify({ maxWarnings: -1 }));
+    await expect(loadConfig(file)).rejects.toThrow('maxWarnings must be a non-negative integer');
+    await fs.writeFile(file, '{ not json');
+    await expect(loadConfig(file)).rejects.toThrow('Could not read config file');
+  });
+});
+
+describe('applyConfig', () => {
+  const base = { file: '/repo/.iftttlintrc', root: '/repo', ignore: [] };
+  const diagnostics: LintDiagnostic[] = [
+    { kind: 'duplicate-label', file: '/repo/src/a.ts', line: 1, message: 'dup' },
+    { kind: 'target-not-changed', file: '/repo/gen/b.ts', line: 2, message: 'unchanged' }
+  ];
+
+  it('applies global severities, then per-path overrides', () => {
+    const result = applyConfig(diagnostics, {
+      ...base,
+      severity: { 'duplicate-label': 'warning', 'target-not-changed': 'warning' },
+      overrides: [{ files: ['gen/*'], severity: { 'target-not-changed': 'error' } }]
+    });
+    expect(result.map(d => d.severity)).toEqual(['warning', 'error']);
+  });
+
+  it('keeps findings about optional targets at most warnings', () => {
+    const optional: LintDiagnostic = {
+      kind: 'target-not-changed', file: '/repo/src/c.ts', line: 3, message: 'unchanged (optional target)',
+      optional: true, severity: 'warning'
+    };
+    const raised = applyConfig([diagnostics[1], optional], { ...base, severity: { 'target-not-changed': 'error' }, overrides: [] });
+    expect(raised.map(d => d.severity)).toEqual(['error', 'warning']);
+    const lowered = applyConfig([optional], { ...base, severity: { 'target-not-changed': 'info' }, overrides: [] });
+    expect(lowered[0].severity).toBe('info');
+    expect(applyConfig([optional], { ...base, severity: { '*': 'off' }, overrides: [] })).toEqual([]);
+  });
+
+  it('drops findings configured as off', () => {
+    const result = applyConfig(diagnostics, {
+      ...base,
+      severity: {},
+      overrides: [{ files: ['gen/*'], severity: { '*': 'off' } }]
+    });
+    expect(result).toEqual([diagnostics[0]]);
+  });
+});
+
+describe('runLint and runScan with a config', () => {
+  let tmpDir: string;
+  beforeEach(async () => {
+    jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    tmpDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'ifttt-config-')));
+  });
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('merges config ignore patterns and severities', async () => {
+    const file1 = path.join(tmpDir, 'file1.ts');
+    await fs.writeFile(file1, ['// LINT.IfChange', 'const a = 2;', '// LINT.ThenChange("file2.ts")'].join('\n'));
+    await fs.writeFile(path.join(tmpDir, 'file2.ts'), 'const a = 1;\n');
+    const diff = [
+      `--- a/${file1}`,
+      `+++ b/${file1}`,
+      '@@ -1,3 +1,3 @@',
+      ' // LINT.IfChange',
+      '-const a = 1;',
+      '+const a = 2;',
+      ' // LINT.ThenChange("file2.ts")'
+    ].join('\n');
+    const config = await loadConfig(await writeConfig({ severity: { 'target-not-changed': 'warning' } }));
+    const diagnostics = await runLint({ diffText: diff }, 1, false, [], { config });
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].severity).toBe('warning');
+
+    const ignoring = await loadConfig(await writeConfig({ ignore: ['file2.ts'] }));
+    expect(await runLint({ diffText: diff }, 1, false, [], { config: ignoring })).toHaveLength(0);
+    expect(await runLint({ diffText: diff }, 1, false, [], { config: null })).toHaveLength(1);
+  });
+
+  it('skips ignored files when scanning', async () => {
+    await fs.writeFile(path.join(tmpDir, 'dup.ts'), ['// LINT.Label("a")', '// LINT.Label("a")', '// LINT.EndLabel', '// LINT.EndLabel'].join('\n'));
+    expect(await runScan(tmpDir, 1, false, { config: null })).toHaveLength(1);
+    const config = await loadConfig(await writeConfig({ ignore: ['dup.*'] }));
+    expect(await runScan(tmpDir, 1, false, { config })).toHaveLength(0);
+  });
+
+  async function writeConfig(content: object): Promise<string> {
+    const file = path.join(tmpDir, 'ifttt-lint.config.json');
+    await fs.writeFile(file, JSON.stringify(content));
+    return file;
+  }
+});
@@ -0,0 +1,82 @@
+import { findDependents, formatDependentsJson, formatDependentsText, parseDependentsQuery } from '../src/Dependents';
+import { runDependents } from '../src/main';
+import { LintDirective } from '../src/LintPrimitives';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+const root = path.resolve('/repo');
+const files: Array<{ file: string; directives: LintDirective[] }> = [
+  {
+    file: '/repo/src/a.ts',
+    directives: [
+      { kind: 'IfChange', line: 1, label: 'cfg' },
+      { kind: 'ThenChange', line: 3, target: 'b.py#consts' },
+      { kind: 'ThenChange', line: 3, target: 'b.py' }
+    ]
+  },
+  {
+    file: '/repo/docs/c.md',
+    directives: [
+      { kind: 'ThenChange', line: 2, target: '//src/b.py#other' },
+      { kind: 'IfChange', line: 5 },
+      { kind: 'ThenChange', line: 7, target: '../src/b.py#consts' }
+    ]
+  }
+];
+
+describe('dependents lookup', () => {
+  it('parses file and file#label queries', () => {
+    expect(parseDependentsQuery('src/b.py')).toEqual({ file: 'src/b.py' });
+    expect(parseDependentsQuery('src/b.py#consts')).toEqual({ file: 'src/b.py', label: 'consts' });
+  });
+
+  it('finds ThenChange directives targeting a file or a label', () => {
+    const all = findDependents(files, { file: '/repo/src/b.py' }, root);
+    expect(all.map(d => [d.file, d.line, d.target])).toEqual([
+      ['/repo/docs/c.md', 2, '//src/b.py#other'],
+      ['/repo/docs/c.md', 7, '../src/b.py#consts'],
+      ['/repo/src/a.ts', 3, 'b.py#consts'],
+      ['/repo/src/a.ts', 3, 'b.py']
+    ]);
+    const labeled = findDependents(files, { file: '/repo/src/b.py', label: 'consts' }, root);
+    expect(labeled).toEqual([
+      { file: '/repo/docs/c.md', line: 7, ifLine: 5, target: '../src/b.py#consts', targetPath: '/repo/src/b.py', label: 'consts' },
+      { file: '/repo/src/a.ts', line: 3, ifLine: 1, ifLabel: 'cfg', target: 'b.py#consts', targetPath: '/repo/src/b.py', label: 'consts' }
+    ]);
+    expect(formatDependentsText(labeled)).toBe([
+      "[dependents] /repo/docs/c.md:5 -> ThenChange '../src/b.py#consts' (line 7)",
+      "[dependents] /repo/src/a.ts#cfg:1 -> ThenChange 'b.py#consts' (line 3)"
+    ].join('\n'));
+    expect(formatDependentsText([])).toBe('No ThenChange directives reference this target.');
+    expect(JSON.parse(formatDependentsJson({ file: 'src/b.py' }, labeled)).dependents).toEqual(labeled);
+  });
+
+  it('reports an orphan ThenChange after a closed block without its IfChange', () => {
+    const dependents = findDependents([{
+      file: '/repo/src/e.ts',
+      directives: [
+        { kind: 'IfChange', line: 1, label: 'x' },
+        { kind: 'ThenChange', line: 3, target: 'b.py' },
+        { kind: 'ThenChange', line: 3, target: 'b.py#consts' },
+        { kind: 'ThenChange', line: 6, target: 'b.py' }
+      ]
+    }], { file: '/repo/src/b.py' }, root);
+    expect(dependents.map(d => [d.line, d.ifLine, d.ifLabel])).toEqual([
+      [3, 1, 'x'],
+      [3, 1, 'x'],
+      [6, undefined, undefined]
+    ]);
+  });
+
+  it('scans a directory with runDependents', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ifttt-dependents-'));
+    await fs.writeFile(path.join(dir, 'a.ts'), ['// LINT.IfChange("x")', '// LINT.ThenChange("b.ts#y")'].join('\n'));
+    await fs.writeFile(path.join(dir, 'b.ts'), ['// LINT.Label("y")', '// LINT.EndLabel'].join('\n'));
+    const found = await runDependents({ file: path.join(dir, 'b.ts'), label: 'y' }, 1, false, { config: null, dir, root: dir });
+    expect(found).toEqual([
+      { file: path.join(dir, 'a.ts'), line: 2, ifLine: 1, ifLabel: 'x', target: 'b.ts#y', targetPath: path.join(dir, 'b.ts'), label: 'y' }
+    ]);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
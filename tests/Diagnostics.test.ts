@@ -0,0 +1,27 @@
+import { LintDiagnostic, demoteErrors, exitCodeFor, severityOf, withSeverity } from '../src/Diagnostics';
+
+const error: LintDiagnostic = { kind: 'duplicate-label', file: 'a.ts', line: 1, message: 'dup' };
+const warning: LintDiagnostic = { kind: 'renamed-target', file: 'a.ts', line: 2, message: 'renamed' };
+const info: LintDiagnostic = { kind: 'target-not-changed', file: 'a.ts', line: 3, message: 'skipped', severity: 'info' };
+
+describe('severities', () => {
+  it('defaults to the severity of the finding kind', () => {
+    expect([error, warning, info].map(severityOf)).toEqual(['error', 'warning', 'info']);
+    expect(withSeverity([error, warning]).map(d => d.severity)).toEqual(['error', 'warning']);
+  });
+
+  it('demotes errors to warnings', () => {
+    expect(demoteErrors([error, warning, info]).map(severityOf)).toEqual(['warning', 'warning', 'info']);
+  });
+});
+
+describe('exitCodeFor', () => {
+  it('returns 1 for errors and 3 for more warnings than allowed', () => {
+    expect(exitCodeFor([])).toBe(0);
+    expect(exitCodeFor([error, warning])).toBe(1);
+    expect(exitCodeFor([warning, warning, info])).toBe(0);
+    expect(exitCodeFor([warning, warning, info], 2)).toBe(0);
+    expect(exitCodeFor([warning, warning, info], 1)).toBe(3);
+    expect(exitCodeFor([info], 0)).toBe(0);
+  });
+});
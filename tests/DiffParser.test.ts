@@ -1,4 +1,4 @@
-import { parseChangedLines } from '../src/DiffParser';
+import { parseChangedLines, reconstructOldContent, mapNewLineToOld } from '../src/DiffParser';
 
 describe('parseChangedLines spurious header filtering', () => {
   it('ignores comment lines starting with --- without valid path', () => {
@@ -107,4 +107,96 @@ describe('parseChangedLines spurious header filtering', () => {
     const result = parseChangedLines(diff);
     expect(result.size).toBe(0);
   });
-});
\ No newline at end of file
+});
+
+describe('diff hunks', () => {
+  const diff = [
+    '--- a/file.txt',
+    '+++ b/file.txt',
+    '@@ -1,4 +1,3 @@',
+    '-one',
+    '-two',
+    '+TWO',
+    ' three',
+    ' four',
+    '@@ -7,2 +6,3 @@',
+    ' seven',
+    '+seven and a half',
+    ' eight',
+    '\\ No newline at end of file'
+  ].join('\n');
+
+  it('retains hunk lines with old and new line numbers', () => {
+    const { hunks, addedLines, removedLines } = parseChangedLines(diff).get('file.txt')!;
+    expect(hunks).toHaveLength(2);
+    expect(hunks[0].lines[0]).toEqual({ type: 'del', content: 'one', oldLine: 1 });
+    expect(hunks[0].lines[2]).toEqual({ type: 'add', content: 'TWO', newLine: 1 });
+    expect(hunks[1].lines).toHaveLength(3);
+    expect(Array.from(addedLines)).toEqual([1, 7]);
+    expect(Array.from(removedLines)).toEqual([1, 2]);
+  });
+
+  it('rebuilds the pre-image from the post-image', () => {
+    const { hunks } = parseChangedLines(diff).get('file.txt')!;
+    const newContent = ['TWO', 'three', 'four', 'five', 'six', 'seven', 'seven and a half', 'eight'].join('\n');
+    expect(reconstructOldContent(newContent, hunks)).toBe(
+      ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight'].join('\n')
+    );
+  });
+
+  it('maps new line numbers to old line numbers', () => {
+    const { hunks } = parseChangedLines(diff).get('file.txt')!;
+    expect(mapNewLineToOld(hunks, 1)).toBeUndefined();
+    expect(mapNewLineToOld(hunks, 2)).toBe(3);
+    expect(mapNewLineToOld(hunks, 4)).toBe(5);
+    expect(mapNewLineToOld(hunks, 7)).toBeUndefined();
+    expect(mapNewLineToOld(hunks, 8)).toBe(8);
+    expect(mapNewLineToOld(hunks, 20)).toBe(20);
+  });
+});
+
+describe('renames and copies', () => {
+  it('records the old path of a renamed file with content changes', () => {
+    const diff = [
+      'diff --git a/src/old.ts b/src/new.ts',
+      'similarity index 80%',
+      'rename from src/old.ts',
+      'rename to src/new.ts',
+      'index 123..456 100644',
+      '--- a/src/old.ts',
+      '+++ b/src/new.ts',
+      '@@ -1 +1 @@',
+      '-old line',
+      '+new line'
+    ].join('\n');
+    const changes = parseChangedLines(diff).get('src/new.ts')!;
+    expect(changes).toMatchObject({ status: 'renamed', oldPath: 'src/old.ts', pureRename: false });
+    expect(changes.addedLines.has(1)).toBe(true);
+  });
+
+  it('keeps pure renames and copies, which have no file lines', () => {
+    const diff = [
+      'diff --git a/pkg/my file.ts b/lib/my file.ts',
+      'similarity index 100%',
+      'rename from pkg/my file.ts',
+      'rename to lib/my file.ts',
+      'diff --git a/a.ts b/b.ts',
+      'similarity index 100%',
+      'copy from a.ts',
+      'copy to b.ts',
+      'diff --git a/c.ts b/c.ts',
+      '--- a/c.ts',
+      '+++ b/c.ts',
+      '@@ -1 +1 @@',
+      '-x',
+      '+y'
+    ].join('\n');
+    const map = parseChangedLines(diff);
+    expect(map.get('lib/my file.ts')).toMatchObject({ status: 'renamed', oldPath: 'pkg/my file.ts', pureRename: true });
+    expect(map.get('lib/my file.ts')!.addedLines.size).toBe(0);
+    expect(map.get('b.ts')).toMatchObject({ status: 'copied', oldPath: 'a.ts', pureRename: true });
+    expect(map.get('c.ts')!.status).toBe('modified');
+    expect(map.get('c.ts')!.oldPath).toBeUndefined();
+  });
+});
+
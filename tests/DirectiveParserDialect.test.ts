@@ -0,0 +1,42 @@
+import { parseDirectivesFromContent } from '../src/DirectiveParser';
+
+describe('DirectiveParser Chromium/Google dialect', () => {
+  it('parses unquoted targets with colon labels', () => {
+    const content = [
+      '// LINT.IfChange(feature_flags)',
+      '// LINT.ThenChange(//path/file.cc:label)',
+      '// LINT.IfChange',
+      '// LINT.ThenChange(/path/a.h, /path/b.h, :local)'
+    ].join('\n');
+    expect(parseDirectivesFromContent(content, 'a.cc')).toEqual([
+      { kind: 'IfChange', line: 1, label: 'feature_flags' },
+      { kind: 'ThenChange', line: 2, target: '//path/file.cc#label' },
+      { kind: 'IfChange', line: 3 },
+      { kind: 'ThenChange', line: 4, target: '/path/a.h' },
+      { kind: 'ThenChange', line: 4, target: '/path/b.h' },
+      { kind: 'ThenChange', line: 4, target: '#local' }
+    ]);
+  });
+
+  it('parses multi-line unquoted target lists', () => {
+    const content = [
+      '# LINT.ThenChange(//chrome/a.h,',
+      '#                 //chrome/b.h:lbl)'
+    ].join('\n');
+    expect(parseDirectivesFromContent(content, 'BUILD.py', 'chromium')).toEqual([
+      { kind: 'ThenChange', line: 1, target: '//chrome/a.h' },
+      { kind: 'ThenChange', line: 1, target: '//chrome/b.h#lbl' }
+    ]);
+  });
+
+  it('accepts only the selected dialect', () => {
+    const chromium = '// LINT.ThenChange(//a/b.h:lbl)';
+    const ifttt = '// LINT.ThenChange("//a/b.h#lbl")';
+    expect(() => parseDirectivesFromContent(chromium, 'a.ts', 'ifttt')).toThrow('Malformed LINT.ThenChange directive');
+    expect(() => parseDirectivesFromContent(ifttt, 'a.ts', 'chromium')).toThrow('Malformed LINT.ThenChange directive');
+    expect(() => parseDirectivesFromContent('// LINT.IfChange(lbl)', 'a.ts', 'ifttt')).toThrow('Malformed LINT.IfChange directive');
+    // Both forms name the same target
+    expect(parseDirectivesFromContent(chromium, 'a.ts', 'chromium'))
+      .toEqual(parseDirectivesFromContent(ifttt, 'a.ts', 'ifttt'));
+  });
+});
@@ -0,0 +1,42 @@
+import { parseDirectivesFromContent, stripComments } from '../src/DirectiveParser';
+
+describe('DirectiveParser semantic IfChange blocks', () => {
+  it('parses the semantic flag in quoted and unquoted forms', () => {
+    const content = [
+      "// LINT.IfChange('config', semantic)",
+      '// LINT.ThenChange("a.ts")',
+      '// LINT.IfChange(flags, semantic)',
+      '// LINT.ThenChange(b.ts)',
+      '// LINT.IfChange("plain")',
+      '// LINT.ThenChange("c.ts")'
+    ].join('\n');
+    expect(parseDirectivesFromContent(content, 'x.ts').filter(d => d.kind === 'IfChange')).toEqual([
+      { kind: 'IfChange', line: 1, label: 'config', semantic: true },
+      { kind: 'IfChange', line: 3, label: 'flags', semantic: true },
+      { kind: 'IfChange', line: 5, label: 'plain' }
+    ]);
+    expect(() => parseDirectivesFromContent("// LINT.IfChange('config', strict)", 'x.ts'))
+      .toThrow('Malformed LINT.IfChange directive at x.ts:1');
+  });
+
+  it('parses an unlabelled semantic block in every dialect', () => {
+    for (const dialect of ['auto', 'ifttt', 'chromium'] as const) {
+      expect(parseDirectivesFromContent('// LINT.IfChange(semantic)', 'x.ts', dialect))
+        .toEqual([{ kind: 'IfChange', line: 1, semantic: true }]);
+    }
+    expect(parseDirectivesFromContent('// LINT.IfChange( semantic )', 'x.ts')).toEqual([{ kind: 'IfChange', line: 1, semantic: true }]);
+  });
+
+  it('strips whole-line and block comments but keeps code', () => {
+    const content = [
+      '// leading comment',
+      'const a = 1; // trailing',
+      '/* block',
+      '   comment */ const b = 2;'
+    ].join('\n');
+    expect(stripComments(content, 'x.ts')).toEqual(['', 'const a = 1; // trailing', '', ' const b = 2;']);
+    expect(stripComments('# note\nx = 1', 'BUILD.bzl')).toEqual(['', 'x = 1']);
+    // LINT directives are not comment text
+    expect(stripComments('// note\n// LINT.ThenChange("a.ts")', 'x.ts')).toEqual(['', '// LINT.ThenChange("a.ts")']);
+  });
+});
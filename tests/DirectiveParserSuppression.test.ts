@@ -0,0 +1,43 @@
+import { parseDirectivesFromContent } from '../src/DirectiveParser';
+
+describe('DirectiveParser optional targets and NoCheck', () => {
+  it('parses optional targets in every ThenChange form', () => {
+    const content = [
+      "// LINT.ThenChange('docs/api.md', optional)",
+      '// LINT.ThenChange(["a.ts", "b.ts#x"], optional)',
+      '// LINT.ThenChange(//docs/c.md:lbl, optional)',
+      '// LINT.ThenChange("d.ts")'
+    ].join('\n');
+    expect(parseDirectivesFromContent(content, 'a.ts')).toEqual([
+      { kind: 'ThenChange', line: 1, target: 'docs/api.md', optional: true },
+      { kind: 'ThenChange', line: 2, target: 'a.ts', optional: true },
+      { kind: 'ThenChange', line: 2, target: 'b.ts#x', optional: true },
+      { kind: 'ThenChange', line: 3, target: '//docs/c.md#lbl', optional: true },
+      { kind: 'ThenChange', line: 4, target: 'd.ts' }
+    ]);
+  });
+
+  it('attaches NoCheck pragmas to the ThenChange on the next line', () => {
+    const content = [
+      '// LINT.IfChange',
+      "// LINT.NoCheck('comment-only block')",
+      '// LINT.ThenChange(["a.ts", "b.ts"])',
+      '// LINT.IfChange',
+      '// LINT.NoCheck',
+      '// LINT.ThenChange("c.ts")'
+    ].join('\n');
+    const directives = parseDirectivesFromContent(content, 'x.ts');
+    expect(directives.filter(d => d.kind === 'ThenChange')).toEqual([
+      { kind: 'ThenChange', line: 3, target: 'a.ts', noCheck: { line: 2, reason: 'comment-only block' } },
+      { kind: 'ThenChange', line: 3, target: 'b.ts', noCheck: { line: 2, reason: 'comment-only block' } },
+      { kind: 'ThenChange', line: 6, target: 'c.ts', noCheck: { line: 5 } }
+    ]);
+  });
+
+  it('rejects misplaced and malformed NoCheck pragmas', () => {
+    expect(() => parseDirectivesFromContent(['// LINT.NoCheck("x")', '// LINT.IfChange'].join('\n'), 'x.ts'))
+      .toThrow('Malformed LINT.NoCheck directive at x.ts:1: expected a LINT.ThenChange on the next line');
+    expect(() => parseDirectivesFromContent('// LINT.NoCheck(reason)', 'x.ts'))
+      .toThrow(/Malformed LINT.NoCheck directive at x.ts:1: expected LINT.NoCheck\("reason"\)/);
+  });
+});
@@ -0,0 +1,128 @@
+import { readGitDiff, getMergeBase, getRepoRoot, readCommitMessages, readGitBlob, resolveBaseRev } from '../src/Git';
+import { runLint } from '../src/main';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+const gitEnv = {
+  ...process.env,
+  GIT_AUTHOR_NAME: 'Test',
+  GIT_AUTHOR_EMAIL: 'test@example.com',
+  GIT_COMMITTER_NAME: 'Test',
+  GIT_COMMITTER_EMAIL: 'test@example.com'
+};
+
+function git(repo: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd: repo, env: gitEnv, encoding: 'utf-8' });
+}
+
+describe('git integration', () => {
+  let repo: string;
+  beforeEach(async () => {
+    jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    repo = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'ifttt-git-')));
+    git(repo, 'init', '-q', '-b', 'main');
+    await fs.writeFile(path.join(repo, 'file1.ts'), ['// LINT.IfChange', 'const a = 1;', '// LINT.ThenChange("file2.ts")'].join('\n') + '\n');
+    await fs.writeFile(path.join(repo, 'file2.ts'), 'const a = 1;\n');
+    git(repo, 'add', '.');
+    git(repo, 'commit', '-q', '-m', 'initial');
+    git(repo, 'checkout', '-q', '-b', 'feature');
+  });
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  const relFile = (name: string) => path.relative(process.cwd(), path.join(repo, name));
+
+  it('finds the repository root and merge base', async () => {
+    expect(await getRepoRoot(repo)).toBe(repo);
+    const mainSha = git(repo, 'rev-parse', 'main').trim();
+    expect(await getMergeBase('main', 'HEAD', repo)).toBe(mainSha);
+  });
+
+  it('lints a branch against its merge base', async () => {
+    await fs.writeFile(path.join(repo, 'file1.ts'), ['// LINT.IfChange', 'const a = 2;', '// LINT.ThenChange("file2.ts")'].join('\n') + '\n');
+    git(repo, 'commit', '-q', '-am', 'change file1');
+    const diff = await readGitDiff({ base: 'main', cwd: repo });
+    expect(diff).toContain(`+++ b/${relFile('file1.ts')}`);
+    const diagnostics = await runLint({ git: { base: 'main', cwd: repo } }, 1);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ kind: 'target-not-changed', file: relFile('file1.ts') });
+
+    await fs.writeFile(path.join(repo, 'file2.ts'), 'const a = 2;\n');
+    git(repo, 'commit', '-q', '-am', 'change file2');
+    expect(await runLint({ git: { base: 'main', head: 'HEAD', cwd: repo } }, 1)).toHaveLength(0);
+  });
+
+  it('reads NO_IFTTT markers from the commit messages of a branch', async () => {
+    await fs.writeFile(path.join(repo, 'file1.ts'), ['// LINT.IfChange', 'const a = 2;', '// LINT.ThenChange("file2.ts")'].join('\n') + '\n');
+    git(repo, 'commit', '-q', '-am', 'change file1\n\nNO_IFTTT=file2 reads the value at runtime');
+    expect(await readCommitMessages({ base: 'main', cwd: repo })).toContain('NO_IFTTT=file2 reads the value at runtime');
+    expect(await readCommitMessages({ staged: true, cwd: repo })).toBe('');
+    const diagnostics = await runLint({ git: { base: 'main', cwd: repo } }, 1);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ severity: 'info', overrideReason: 'file2 reads the value at runtime' });
+  });
+
+  it('lints staged and working tree changes', async () => {
+    await fs.writeFile(path.join(repo, 'file1.ts'), ['// LINT.IfChange', 'const a = 2;', '// LINT.ThenChange("file2.ts")'].join('\n') + '\n');
+    git(repo, 'add', 'file1.ts');
+    await fs.writeFile(path.join(repo, 'file2.ts'), 'const a = 2;\n');
+    // Only file1 is staged, so the staged diff misses the target change
+    expect(await runLint({ git: { staged: true, cwd: repo } }, 1)).toHaveLength(1);
+    // The working tree includes the unstaged change to file2
+    expect(await runLint({ git: { workingTree: true, cwd: repo } }, 1)).toHaveLength(0);
+  });
+
+  it('parses partially staged files from the index', async () => {
+    await fs.writeFile(path.join(repo, 'file1.ts'), ['// LINT.IfChange', 'const a = 2;', '// LINT.ThenChange("file2.ts")'].join('\n') + '\n');
+    git(repo, 'add', 'file1.ts');
+    // The unstaged edit drops the directives, which must not hide the staged block change
+    await fs.writeFile(path.join(repo, 'file1.ts'), 'const a = 2;\n');
+    expect(await readGitBlob('', path.join(repo, 'file1.ts'))).toContain('LINT.IfChange');
+    const diagnostics = await runLint({ git: { staged: true, cwd: repo } }, 1);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ kind: 'target-not-changed', file: relFile('file1.ts') });
+  });
+
+  it('checks removed lines against the pre-image at the merge base', async () => {
+    await fs.writeFile(path.join(repo, 'file1.ts'), ['// LINT.IfChange', '// LINT.ThenChange("file2.ts")'].join('\n') + '\n');
+    git(repo, 'commit', '-q', '-am', 'drop constant');
+    const mainSha = git(repo, 'rev-parse', 'main').trim();
+    expect(await resolveBaseRev({ base: 'main', cwd: repo })).toBe(mainSha);
+    expect(await resolveBaseRev({ staged: true, cwd: repo })).toBe('HEAD');
+    expect(await readGitBlob(mainSha, path.join(repo, 'file1.ts'))).toContain('const a = 1;');
+    // The only change is a removed line inside the IfChange block
+    const diagnostics = await runLint({ git: { base: 'main', cwd: repo } }, 1);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ kind: 'target-not-changed', file: relFile('file1.ts') });
+  });
+
+  it('follows renamed targets', async () => {
+    // Give the target enough content for git to detect the rename after it is edited
+    git(repo, 'checkout', '-q', 'main');
+    await fs.writeFile(path.join(repo, 'file2.ts'), ['const a = 1;', 'const b = 1;', 'const c = 1;', 'const d = 1;'].join('\n') + '\n');
+    git(repo, 'commit', '-q', '-am', 'grow file2');
+    git(repo, 'checkout', '-q', '-B', 'feature');
+    await fs.writeFile(path.join(repo, 'file1.ts'), ['// LINT.IfChange', 'const a = 2;', '// LINT.ThenChange("file2.ts")'].join('\n') + '\n');
+    git(repo, 'mv', 'file2.ts', 'file3.ts');
+    git(repo, 'commit', '-q', '-am', 'rename file2');
+    // A pure rename leaves the target's content unchanged
+    const kinds = (await runLint({ git: { base: 'main', cwd: repo } }, 1)).map(d => d.kind).sort();
+    expect(kinds).toEqual(['renamed-target', 'target-not-changed']);
+
+    await fs.writeFile(path.join(repo, 'file3.ts'), ['const a = 2;', 'const b = 1;', 'const c = 1;', 'const d = 1;'].join('\n') + '\n');
+    git(repo, 'commit', '-q', '-am', 'change file3');
+    const diagnostics = await runLint({ git: { base: 'main', cwd: repo } }, 1);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ kind: 'renamed-target', severity: 'warning', targetPath: relFile('file3.ts') });
+  });
+
+  it('rejects ambiguous specs', async () => {
+    await expect(readGitDiff({ staged: true, workingTree: true, cwd: repo })).rejects.toThrow('Exactly one of');
+    await expect(readGitDiff({ head: 'HEAD', staged: true, cwd: repo })).rejects.toThrow('requires a base');
+    await expect(readGitDiff({ base: 'no-such-ref', cwd: repo })).rejects.toThrow(/git merge-base/);
+  });
+});
@@ -0,0 +1,57 @@
+import { formatGithub, formatGithubAnnotation, formatGithubSummary } from '../src/GithubReporter';
+import { LintDiagnostic } from '../src/Diagnostics';
+import * as path from 'path';
+
+const diag: LintDiagnostic = {
+  kind: 'target-not-changed',
+  file: 'src/a,b.ts',
+  line: 4,
+  target: 'c.ts',
+  targetPath: 'src/c.ts',
+  thenLine: 6,
+  message: "ThenChange 'c.ts' (line 6): 100% not changed\nsecond line"
+};
+
+describe('GitHub reporter', () => {
+  it('formats error annotations with escaped properties and data', () => {
+    expect(formatGithubAnnotation(diag)).toBe(
+      '::error file=src/a%2Cb.ts,line=4,title=ifttt-lint (target-not-changed)::' +
+      "ThenChange 'c.ts' (line 6): 100%25 not changed%0Asecond line"
+    );
+  });
+
+  it('emits warnings in warn mode', () => {
+    expect(formatGithubAnnotation(diag, true)).toMatch(/^::warning file=/);
+    expect(formatGithubAnnotation({ ...diag, severity: 'info' }, true)).toMatch(/^::notice file=/);
+  });
+
+  it('makes absolute paths relative to the workspace', () => {
+    const abs = { ...diag, file: path.join(process.cwd(), 'src', 'x.ts') };
+    expect(formatGithubAnnotation(abs)).toContain('file=src/x.ts,');
+  });
+
+  it('makes paths relative to the repository root', () => {
+    const root = path.dirname(process.cwd());
+    const expected = `${path.basename(process.cwd())}/src/x.ts`;
+    expect(formatGithubAnnotation({ ...diag, file: path.join('src', 'x.ts') }, false, root)).toContain(`file=${expected},`);
+    expect(formatGithubSummary({ mode: 'diff', diagnostics: [{ ...diag, file: path.join('src', 'x.ts') }], exitCode: 1 }, false, root))
+      .toContain(`\`${expected}:4\``);
+  });
+
+  it('returns no annotations for clean runs', () => {
+    expect(formatGithub({ mode: 'diff', diagnostics: [], exitCode: 0 })).toBe('');
+  });
+
+  it('builds a markdown summary table', () => {
+    const summary = formatGithubSummary({ mode: 'scan', diagnostics: [diag], exitCode: 1 });
+    expect(summary).toContain('### ifttt-lint (scan mode)');
+    expect(summary).toContain('| Level | Location | Rule | Message |');
+    expect(summary).toContain('| error | `src/a,b.ts:4` | target-not-changed |');
+    expect(summary).not.toContain('\nsecond line');
+  });
+
+  it('summarizes clean runs', () => {
+    expect(formatGithubSummary({ mode: 'diff', diagnostics: [], exitCode: 0 }))
+      .toContain('No IfThisThenThat findings.');
+  });
+});
@@ -0,0 +1,109 @@
+import { buildGraph, filterNeighbourhood, formatDot, formatMermaid, formatGraphJson } from '../src/Graph';
+import { runGraph } from '../src/main';
+import { LintDirective } from '../src/LintPrimitives';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+const root = path.resolve('/repo');
+const files: Array<{ file: string; directives: LintDirective[] }> = [
+  {
+    file: '/repo/src/a.ts',
+    directives: [
+      { kind: 'IfChange', line: 1, label: 'cfg' },
+      { kind: 'ThenChange', line: 3, target: 'b.py#consts' },
+      { kind: 'ThenChange', line: 3, target: '//docs/c.md' }
+    ]
+  },
+  {
+    file: '/repo/src/b.py',
+    directives: [
+      { kind: 'Label', line: 1, name: 'consts' },
+      { kind: 'EndLabel', line: 4 },
+      { kind: 'IfChange', line: 6 },
+      { kind: 'ThenChange', line: 8, target: 'a.ts#cfg' }
+    ]
+  },
+  { file: '/repo/docs/d.md', directives: [{ kind: 'IfChange', line: 1 }, { kind: 'ThenChange', line: 2, target: 'c.md' }] }
+];
+
+describe('dependency graph', () => {
+  it('builds file and label nodes with edges from directives', () => {
+    const graph = buildGraph(files, root);
+    expect(graph.nodes.map(n => n.id)).toEqual([
+      'docs/c.md', 'docs/d.md', 'src/a.ts', 'src/a.ts#cfg', 'src/b.py', 'src/b.py#consts'
+    ]);
+    expect(graph.nodes.find(n => n.id === 'src/b.py#consts')).toEqual(
+      { id: 'src/b.py#consts', kind: 'label', file: 'src/b.py', label: 'consts' }
+    );
+    expect(graph.edges).toEqual([
+      { from: 'docs/d.md', to: 'docs/c.md', line: 2 },
+      { from: 'src/a.ts#cfg', to: 'docs/c.md', line: 3 },
+      { from: 'src/a.ts#cfg', to: 'src/b.py#consts', line: 3 },
+      { from: 'src/b.py', to: 'src/a.ts#cfg', line: 8 }
+    ]);
+  });
+
+  it('ignores an orphan ThenChange after a closed block', () => {
+    const graph = buildGraph([{
+      file: '/repo/src/e.ts',
+      directives: [
+        { kind: 'IfChange', line: 1, label: 'x' },
+        { kind: 'ThenChange', line: 3, target: 'f.ts' },
+        { kind: 'ThenChange', line: 3, target: 'g.ts' },
+        { kind: 'ThenChange', line: 6, target: 'h.ts' }
+      ]
+    }], root);
+    expect(graph.edges).toEqual([
+      { from: 'src/e.ts#x', to: 'src/f.ts', line: 3 },
+      { from: 'src/e.ts#x', to: 'src/g.ts', line: 3 }
+    ]);
+    expect(graph.nodes.map(n => n.id)).not.toContain('src/h.ts');
+  });
+
+  it('filters to the neighbourhood of a file', () => {
+    const graph = buildGraph(files, root);
+    const near = filterNeighbourhood(graph, 'src/b.py');
+    expect(Array.from(new Set(near.nodes.map(n => n.file)))).toEqual(['src/a.ts', 'src/b.py']);
+    expect(near.edges).toHaveLength(2);
+    const far = filterNeighbourhood(graph, 'src/b.py', 2);
+    expect(far.nodes.map(n => n.file)).toContain('docs/c.md');
+    expect(far.nodes.map(n => n.file)).not.toContain('docs/d.md');
+    expect(filterNeighbourhood(graph, 'missing.ts')).toEqual({ nodes: [], edges: [] });
+  });
+
+  it('formats DOT, Mermaid and JSON', () => {
+    const graph = filterNeighbourhood(buildGraph(files, root), 'docs/d.md');
+    expect(formatDot(graph)).toBe([
+      'digraph ifttt {',
+      '  rankdir=LR;',
+      '  node [shape=box];',
+      '  subgraph cluster_0 {',
+      '    label="docs/c.md";',
+      '    "docs/c.md" [label="c.md"];',
+      '  }',
+      '  subgraph cluster_1 {',
+      '    label="docs/d.md";',
+      '    "docs/d.md" [label="d.md"];',
+      '  }',
+      '  "docs/d.md" -> "docs/c.md" [label="line 2"];',
+      '}'
+    ].join('\n'));
+    const labeled = buildGraph(files.slice(0, 2), root);
+    expect(formatMermaid(labeled)).toContain('subgraph g2 ["src/b.py"]');
+    expect(formatMermaid(labeled)).toContain('n4(["#consts"])');
+    expect(formatMermaid(labeled)).toContain('n2 -->|"line 3"| n4');
+    expect(JSON.parse(formatGraphJson(graph))).toEqual(graph);
+  });
+
+  it('scans a directory with runGraph', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ifttt-graph-'));
+    await fs.writeFile(path.join(dir, 'a.ts'), ['// LINT.IfChange', '// LINT.ThenChange("b.ts#x")'].join('\n'));
+    await fs.writeFile(path.join(dir, 'b.ts'), ['// LINT.Label("x")', '// LINT.EndLabel'].join('\n'));
+    await fs.writeFile(path.join(dir, 'c.ts'), ['// LINT.IfChange', '// LINT.ThenChange("d.ts")'].join('\n'));
+    const graph = await runGraph(dir, 1, false, { config: null, root: dir, focus: path.join(dir, 'a.ts') });
+    expect(graph.edges).toEqual([{ from: 'a.ts', to: 'b.ts#x', line: 2 }]);
+    expect(graph.nodes.map(n => n.id)).toEqual(['a.ts', 'b.ts', 'b.ts#x']);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,88 @@
+import { analysisExitCode, analyzeGraph, formatAnalysisText, formatAnalysisJson } from '../src/GraphAnalysis';
+import { EXIT_CODES } from '../src/Diagnostics';
+import { DependencyGraph, GraphNode } from '../src/Graph';
+import { runAnalysis } from '../src/main';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+const label = (id: string): GraphNode => {
+  const [file, name] = id.split('#');
+  return { id, kind: 'label', file, label: name };
+};
+const graph: DependencyGraph = {
+  nodes: [
+    label('a.ts#foo'), label('b.ts#bar'), label('c.ts#baz'), label('d.ts#x'), label('e.ts#y'), label('f.ts#z'),
+    ...['a.ts', 'b.ts', 'c.ts', 'd.ts', 'e.ts', 'f.ts', 'g.ts'].map(file => ({ id: file, kind: 'file' as const, file }))
+  ],
+  edges: [
+    // a#foo <-> b#bar: mutual
+    { from: 'a.ts#foo', to: 'b.ts#bar', line: 2 },
+    { from: 'b.ts#bar', to: 'a.ts#foo', line: 3 },
+    // c -> d -> e -> c: cycle, and each link is one-sided
+    { from: 'c.ts#baz', to: 'd.ts#x', line: 4 },
+    { from: 'd.ts#x', to: 'e.ts#y', line: 5 },
+    { from: 'e.ts#y', to: 'c.ts#baz', line: 6 },
+    // f#z -> a#foo, which points elsewhere; g -> f#z, which points back to g's file only from a label
+    { from: 'f.ts#z', to: 'a.ts#foo', line: 7 },
+    { from: 'g.ts', to: 'f.ts#z', line: 8 }
+  ]
+};
+
+describe('graph analysis', () => {
+  it('reports strongly-connected components', () => {
+    expect(analyzeGraph(graph).cycles).toEqual([
+      { kind: 'mutual', nodes: ['a.ts#foo', 'b.ts#bar'] },
+      { kind: 'cycle', nodes: ['c.ts#baz', 'd.ts#x', 'e.ts#y'] }
+    ]);
+  });
+
+  it('lists links into IfChange blocks that do not point back', () => {
+    const { asymmetric } = analyzeGraph(graph);
+    expect(asymmetric.map(a => `${a.from}->${a.to}`)).toEqual([
+      'c.ts#baz->d.ts#x', 'd.ts#x->e.ts#y', 'e.ts#y->c.ts#baz', 'f.ts#z->a.ts#foo', 'g.ts->f.ts#z'
+    ]);
+    expect(asymmetric[3]).toEqual({
+      from: 'f.ts#z', to: 'a.ts#foo', line: 7, targetsOfTo: ['b.ts#bar'], labelled: true, required: false
+    });
+    expect(asymmetric[4].labelled).toBe(false);
+  });
+
+  it('requires symmetry for labelled cross-references only', () => {
+    const { asymmetric } = analyzeGraph(graph, { requireSymmetry: true });
+    expect(asymmetric.filter(a => a.required).map(a => a.from)).toEqual(['c.ts#baz', 'd.ts#x', 'e.ts#y', 'f.ts#z']);
+  });
+
+  it('computes the exit code from required links, --warn and --max-warnings', () => {
+    const required = analyzeGraph(graph, { requireSymmetry: true });
+    expect(analysisExitCode(analyzeGraph(graph))).toBe(EXIT_CODES.success);
+    expect(analysisExitCode(required)).toBe(EXIT_CODES.errors);
+    expect(analysisExitCode(required, true)).toBe(EXIT_CODES.success);
+    expect(analysisExitCode(required, true, 4)).toBe(EXIT_CODES.success);
+    expect(analysisExitCode(required, true, 3)).toBe(EXIT_CODES.tooManyWarnings);
+  });
+
+  it('formats text and JSON', () => {
+    const analysis = analyzeGraph(graph, { requireSymmetry: true });
+    const text = formatAnalysisText(analysis);
+    expect(text).toContain('  mutual: a.ts#foo, b.ts#bar');
+    expect(text).toContain('  error: f.ts#z -> a.ts#foo (line 7); a.ts#foo points to b.ts#bar');
+    expect(text).toContain('  g.ts -> f.ts#z (line 8); f.ts#z points to a.ts#foo');
+    expect(formatAnalysisText({ cycles: [], asymmetric: [] }))
+      .toBe('No reference cycles.\nNo asymmetric cross-references.');
+    expect(JSON.parse(formatAnalysisJson(analysis))).toEqual(analysis);
+  });
+
+  it('analyses a directory with runAnalysis', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ifttt-analyze-'));
+    await fs.writeFile(path.join(dir, 'a.ts'), ['// LINT.IfChange("x")', '// LINT.ThenChange("b.ts#y")'].join('\n'));
+    await fs.writeFile(path.join(dir, 'b.ts'), ['// LINT.IfChange("y")', '// LINT.ThenChange("c.ts")'].join('\n'));
+    await fs.writeFile(path.join(dir, 'c.ts'), ['// LINT.IfChange', '// LINT.ThenChange("b.ts#y")'].join('\n'));
+    const analysis = await runAnalysis(dir, 1, false, { config: null, root: dir, requireSymmetry: true });
+    expect(analysis.cycles).toEqual([{ kind: 'mutual', nodes: ['b.ts#y', 'c.ts'] }]);
+    expect(analysis.asymmetric).toEqual([
+      { from: 'a.ts#x', to: 'b.ts#y', line: 2, targetsOfTo: ['c.ts'], labelled: true, required: true }
+    ]);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
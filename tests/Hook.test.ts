@@ -0,0 +1,47 @@
+import { HOOK_MARKER, formatPreCommitHook } from '../src/Hook';
+import { execFileSync, spawnSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+// Config injected through the environment, such as a global core.hooksPath, would override the repository's
+const env = { ...process.env, GIT_CONFIG_COUNT: '0' };
+const script = path.resolve(__dirname, '../dist/main.js');
+
+describe('install-hook', () => {
+  let repo: string;
+  beforeEach(async () => {
+    repo = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'ifttt-hook-')));
+    execFileSync('git', ['init', '-q'], { cwd: repo, env });
+  });
+  afterEach(async () => {
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  const installHook = (...args: string[]) =>
+    spawnSync(process.execPath, [script, 'install-hook', ...args], { cwd: repo, env, encoding: 'utf-8' });
+
+  it('writes an executable hook running the pre-commit mode', async () => {
+    const file = path.join(repo, '.git', 'hooks', 'pre-commit');
+    const result = installHook();
+    expect(result.status).toBe(0);
+    expect(result.stdout).toContain(`Installed pre-commit hook: ${file}`);
+    expect(await fs.readFile(file, 'utf-8')).toBe(formatPreCommitHook());
+    expect(formatPreCommitHook()).toContain('ifttt-lint --pre-commit');
+    expect((await fs.stat(file)).mode & 0o111).not.toBe(0);
+    // Reinstalling replaces a hook written by ifttt-lint
+    expect(installHook().status).toBe(0);
+  });
+
+  it('honours core.hooksPath and keeps foreign hooks unless forced', async () => {
+    execFileSync('git', ['config', 'core.hooksPath', 'githooks'], { cwd: repo, env });
+    const file = path.join(repo, 'githooks', 'pre-commit');
+    await fs.mkdir(path.dirname(file));
+    await fs.writeFile(file, '#!/bin/sh\nnpm test\n');
+    const refused = installHook();
+    expect(refused.status).toBe(2);
+    expect(refused.stderr).toContain(`A pre-commit hook already exists at ${file}; rerun with --force to replace it`);
+    expect(installHook('--force').status).toBe(0);
+    expect(await fs.readFile(file, 'utf-8')).toContain(HOOK_MARKER);
+  });
+});
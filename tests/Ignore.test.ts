@@ -0,0 +1,80 @@
+import { createIgnoreMatcher, loadIgnoreFile, parseIgnoreRule } from '../src/Ignore';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('ignore patterns', () => {
+  const root = path.join(os.tmpdir(), 'ignore-root');
+  const matcher = (...entries: string[]) => createIgnoreMatcher(entries, root);
+  const at = (rel: string) => path.join(root, rel);
+
+  it('parses negation, labels and directory patterns', () => {
+    expect(parseIgnoreRule('!src/gen/#lbl')).toMatchObject({
+      pattern: 'src/gen/', negated: true, dirOnly: true, label: 'lbl'
+    });
+    expect(parseIgnoreRule('file\\#1.ts')).not.toHaveProperty('label');
+  });
+
+  it('matches unanchored patterns at any depth', () => {
+    const m = matcher('*.json');
+    expect(m.ignores(at('a.json'))).toBe(true);
+    expect(m.ignores(at('deep/dir/b.json'))).toBe(true);
+    expect(m.ignores(at('a.ts'))).toBe(false);
+  });
+
+  it('anchors patterns containing a slash to the root', () => {
+    const m = matcher('/build', 'src/*.ts');
+    expect(m.ignores(at('build/out.js'))).toBe(true);
+    expect(m.ignores(at('pkg/build/out.js'))).toBe(false);
+    expect(m.ignores(at('src/a.ts'))).toBe(true);
+    // "*" does not cross directory boundaries
+    expect(m.ignores(at('src/sub/a.ts'))).toBe(false);
+  });
+
+  it('supports "**" and character classes', () => {
+    const m = matcher('src/**/gen/*.[jt]s', 'docs/**', 'v[!0-9].md');
+    expect(m.ignores(at('src/gen/a.ts'))).toBe(true);
+    expect(m.ignores(at('src/a/b/gen/c.js'))).toBe(true);
+    expect(m.ignores(at('src/a/gen/c.md'))).toBe(false);
+    expect(m.ignores(at('docs/x/y.md'))).toBe(true);
+    expect(m.ignores(at('va.md'))).toBe(true);
+    expect(m.ignores(at('v1.md'))).toBe(false);
+  });
+
+  it('matches directory-only patterns against parent directories', () => {
+    const m = matcher('vendor/');
+    expect(m.ignores(at('lib/vendor/x.ts'))).toBe(true);
+    expect(m.ignores(at('vendor'))).toBe(false);
+  });
+
+  it('lets later negated patterns re-include files', () => {
+    const m = matcher('*.json', '!keep.json');
+    expect(m.ignores(at('drop.json'))).toBe(true);
+    expect(m.ignores(at('keep.json'))).toBe(false);
+    expect(matcher('!keep.json', '*.json').ignores(at('keep.json'))).toBe(true);
+  });
+
+  it('applies labeled patterns only to that label', () => {
+    const m = matcher('api.ts#v1', '*.md', '!README.md#intro');
+    expect(m.ignores(at('api.ts'))).toBe(false);
+    expect(m.ignores(at('api.ts'), 'v1')).toBe(true);
+    expect(m.ignores(at('api.ts'), 'v2')).toBe(false);
+    // File-level patterns cover every label
+    expect(m.ignores(at('README.md'), 'usage')).toBe(true);
+    expect(m.ignores(at('README.md'), 'intro')).toBe(false);
+  });
+
+  it('matches paths outside the root by their trailing segments only', () => {
+    const m = createIgnoreMatcher(['*.json', 'tmp/**'], path.join(root, 'sub'));
+    expect(m.ignores(at('other/a.json'))).toBe(true);
+    expect(m.ignores(at('tmp/a.ts'))).toBe(false);
+  });
+
+  it('reads an ignore file, skipping comments and blank lines', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ignore-file-'));
+    const file = path.join(dir, '.iftttignore');
+    await fs.writeFile(file, ['# generated code', 'gen/', '', '*.snap   ', '!keep.snap', '\\#odd.ts'].join('\n'), 'utf-8');
+    expect(await loadIgnoreFile(file)).toEqual(['gen/', '*.snap', '!keep.snap', '\\#odd.ts']);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,86 @@
+import { findImpact, formatImpactJson, formatImpactText, parseImpactQuery } from '../src/Impact';
+import { runImpact } from '../src/main';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('impact queries', () => {
+  let dir: string;
+  let a: string;
+  let b: string;
+  let c: string;
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ifttt-impact-'));
+    a = path.join(dir, 'a.ts');
+    b = path.join(dir, 'b.ts');
+    c = path.join(dir, 'c.md');
+    await fs.writeFile(a, [
+      '// LINT.IfChange("cfg")',
+      'const a = 1;',
+      '// LINT.ThenChange(["b.ts#consts", "missing.ts"])',
+      'const other = 2;',
+      '// LINT.IfChange',
+      'const c = 3;',
+      '// LINT.ThenChange("c.md")'
+    ].join('\n'));
+    await fs.writeFile(b, [
+      '// LINT.Label("consts")',
+      '// LINT.IfChange',
+      'const b = 1;',
+      '// LINT.ThenChange("c.md")',
+      '// LINT.EndLabel'
+    ].join('\n'));
+    await fs.writeFile(c, 'docs\n');
+  });
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('parses file, file:line and file#label queries', () => {
+    expect(parseImpactQuery('src/a.ts')).toEqual({ file: 'src/a.ts' });
+    expect(parseImpactQuery('src/a.ts:12')).toEqual({ file: 'src/a.ts', line: 12 });
+    expect(parseImpactQuery('src/a.ts#cfg')).toEqual({ file: 'src/a.ts', label: 'cfg' });
+  });
+
+  it('lists the targets of the blocks covering a line, with label ranges', async () => {
+    const entries = await findImpact({ file: a, line: 2 });
+    expect(entries).toEqual([
+      { file: a, ifLine: 1, ifLabel: 'cfg', thenLine: 3, target: 'b.ts#consts', targetPath: b, label: 'consts', range: { startLine: 2, endLine: 4 }, depth: 1 },
+      { file: a, ifLine: 1, ifLabel: 'cfg', thenLine: 3, target: 'missing.ts', targetPath: path.join(dir, 'missing.ts'), missing: 'file', depth: 1 }
+    ]);
+    expect(await findImpact({ file: a, line: 4 })).toEqual([]);
+    expect((await findImpact({ file: a })).map(e => e.target)).toEqual(['b.ts#consts', 'missing.ts', 'c.md']);
+  });
+
+  it('selects blocks by label and follows targets transitively', async () => {
+    expect((await findImpact({ file: a, label: 'cfg' })).map(e => e.target)).toEqual(['b.ts#consts', 'missing.ts']);
+    const entries = await findImpact({ file: a, label: 'cfg' }, { transitive: true });
+    expect(entries.map(e => [e.file, e.target, e.depth])).toEqual([
+      [a, 'b.ts#consts', 1],
+      [a, 'missing.ts', 1],
+      [b, 'c.md', 2]
+    ]);
+    await expect(findImpact({ file: a, label: 'nope' })).rejects.toThrow(`Label 'nope' not found in ${a}`);
+  });
+
+  it('reports a target that fails to parse with its error', async () => {
+    await fs.writeFile(b, '// LINT.IfChange()\n');
+    const entries = await findImpact({ file: a, line: 2 });
+    expect(entries[0]).toEqual({
+      file: a, ifLine: 1, ifLabel: 'cfg', thenLine: 3, target: 'b.ts#consts', targetPath: b, label: 'consts',
+      missing: 'parse', error: expect.stringMatching(/^Malformed LINT.IfChange directive at /), depth: 1
+    });
+    expect(formatImpactText(entries)).toContain(`[impact] ${a}#cfg:1 -> ${b}#consts (parse error: Malformed LINT.IfChange directive at `);
+  });
+
+  it('formats text and JSON output', async () => {
+    const entries = await runImpact({ file: a, line: 2 }, { config: null, transitive: true });
+    expect(formatImpactText(entries)).toBe([
+      `[impact] ${a}#cfg:1 -> ${b}#consts (lines 2-4)`,
+      `[impact] ${a}#cfg:1 -> ${path.join(dir, 'missing.ts')} (file not found)`,
+      `  [impact] ${b}:2 -> ${c}`
+    ].join('\n'));
+    expect(formatImpactText([])).toBe('No ThenChange targets: nothing else must change.');
+    expect(JSON.parse(formatImpactJson({ file: a, line: 2 }, entries))).toEqual({ query: { file: a, line: 2 }, targets: entries });
+  });
+});
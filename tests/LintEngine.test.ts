@@ -1,6 +1,7 @@
 import { parseChangedLines } from '../src/DiffParser';
 import { parseFileDirectives } from '../src/DirectiveParser';
-import { lintDiff } from '../src/LintEngine';
+import { findCosmeticLines, lintDiff } from '../src/LintEngine';
+import { formatDiagnostic } from '../src/Reporter';
 import * as fs from 'fs/promises';
 import * as os from 'os';
 import * as path from 'path';
@@ -35,12 +36,14 @@ rename to new.txt
     const map = parseChangedLines(diff);
     expect(map.has('new.txt')).toBe(true);
     const changes = map.get('new.txt')!;
+    expect(changes.status).toBe('renamed');
+    expect(changes.oldPath).toBe('old.txt');
     expect(changes.addedLines.has(1)).toBe(true);
     expect(changes.removedLines.has(1)).toBe(true);
     expect(map.has('old.txt')).toBe(false);
   });
 
-  test('deleted file entries are skipped', () => {
+  test('deleted file entries are kept with deleted status', () => {
     const diff = `
 --- a/foo.txt
 +++ /dev/null
@@ -48,8 +51,11 @@ rename to new.txt
 -deleted line
 `.trim();
     const map = parseChangedLines(diff);
-    expect(map.has('foo.txt')).toBe(false);
-    expect(map.size).toBe(0);
+    expect(map.size).toBe(1);
+    const changes = map.get('foo.txt')!;
+    expect(changes.status).toBe('deleted');
+    expect(Array.from(changes.removedLines)).toEqual([1]);
+    expect(changes.addedLines.size).toBe(0);
   });
 
   test('simple add and delete', () => {
@@ -160,7 +166,7 @@ describe('lintDiff', () => {
       ' // LINT.EndLabel'
     ].join('\n');
     const result = await lintDiff(diff, 1, true);
-    expect(result).toBe(0);
+    expect(result).toHaveLength(0);
   });
 
   test('error when target file not changed', async () => {
@@ -180,7 +186,136 @@ describe('lintDiff', () => {
       ' // LINT.ThenChange("file2.ts")'
     ].join('\n');
     const result = await lintDiff(diff, 1, true);
-    expect(result).toBe(1);
+    expect(result).not.toHaveLength(0);
+  });
+
+  test('returns structured diagnostic for unchanged target', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lint-diag-'));
+    const file1 = path.join(tmpDir, 'file1.ts');
+    const file2 = path.join(tmpDir, 'file2.ts');
+    await fs.writeFile(file1, ["// LINT.IfChange('g')", '// LINT.ThenChange("file2.ts")'].join('\n'));
+    await fs.writeFile(file2, '// dummy file');
+    const diff = [
+      `--- a/${file1}`,
+      `+++ b/${file1}`,
+      '@@ -1,1 +1,1 @@',
+      "-// LINT.IfChange('g')",
+      "+// LINT.IfChange('g') // modified"
+    ].join('\n');
+    const diagnostics = await lintDiff(diff, 1);
+    expect(diagnostics).toEqual([
+      {
+        kind: 'target-not-changed',
+        file: file1,
+        line: 1,
+        ifLabel: 'g',
+        target: 'file2.ts',
+        targetPath: file2,
+        thenLine: 2,
+        message: `ThenChange 'file2.ts' (line 2): target file '${file2}' not changed.`,
+        severity: 'error'
+      }
+    ]);
+    expect(formatDiagnostic(diagnostics[0])).toBe(
+      `[ifttt] ${file1}#g:1 -> ThenChange 'file2.ts' (line 2): target file '${file2}' not changed.`
+    );
+  });
+
+  test('reports optional targets as warnings and skips NoCheck targets', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lint-optional-'));
+    const file1 = path.join(tmpDir, 'file1.ts');
+    const file2 = path.join(tmpDir, 'file2.ts');
+    await fs.writeFile(file1, [
+      '// LINT.IfChange',
+      'const a = 2;',
+      '// LINT.ThenChange("file2.ts", optional)',
+      '// LINT.IfChange',
+      'const b = 2;',
+      '// LINT.NoCheck("generated from file1")',
+      '// LINT.ThenChange("file2.ts")'
+    ].join('\n'));
+    await fs.writeFile(file2, '// dummy file');
+    const diff = [
+      `--- a/${file1}`,
+      `+++ b/${file1}`,
+      '@@ -1,7 +1,7 @@',
+      ' // LINT.IfChange',
+      '-const a = 1;',
+      '+const a = 2;',
+      ' // LINT.ThenChange("file2.ts", optional)',
+      ' // LINT.IfChange',
+      '-const b = 1;',
+      '+const b = 2;',
+      ' // LINT.NoCheck("generated from file1")',
+      ' // LINT.ThenChange("file2.ts")'
+    ].join('\n');
+    const diagnostics = await lintDiff(diff, 1);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ kind: 'target-not-changed', line: 1, thenLine: 3, severity: 'warning' });
+    expect(diagnostics[0].message).toMatch(/\(optional target\)$/);
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test('ignores whitespace-only and comment-only changes in semantic blocks', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lint-semantic-'));
+    const file1 = path.join(tmpDir, 'file1.ts');
+    const file2 = path.join(tmpDir, 'file2.ts');
+    await fs.writeFile(file1, [
+      "// LINT.IfChange('a', semantic)",
+      '// Sums the values',
+      'const a = 1;',
+      '// LINT.ThenChange("file2.ts")',
+      '',
+      "// LINT.IfChange('b', semantic)",
+      'const b = 2;',
+      '// LINT.ThenChange("file2.ts")',
+      '',
+      "// LINT.IfChange('c')",
+      '// Fixed a typo',
+      '// LINT.ThenChange("file2.ts")'
+    ].join('\n'));
+    await fs.writeFile(file2, '// dummy file');
+    const diff = [
+      `--- a/${file1}`,
+      `+++ b/${file1}`,
+      '@@ -2,2 +2,2 @@',
+      '-// Sums the valeus',
+      '-const a  =  1;',
+      '+// Sums the values',
+      '+const a = 1;',
+      '@@ -7,1 +7,1 @@',
+      '-const b = 1;',
+      '+const b = 2;',
+      '@@ -11,1 +11,1 @@',
+      '-// Fixed a tpyo',
+      '+// Fixed a typo'
+    ].join('\n');
+    const labels = (diagnostics: { ifLabel?: string }[]) => diagnostics.map(d => d.ifLabel);
+    expect(labels(await lintDiff(diff, 1))).toEqual(['b', 'c']);
+    expect(labels(await lintDiff(diff, 1, false, [], { semantic: true }))).toEqual(['b']);
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test('treats joined tokens and edited LINT directives as real changes', () => {
+    const diff = [
+      '--- a/x.ts',
+      '+++ b/x.ts',
+      '@@ -2,1 +2,1 @@',
+      '-int a = 1;',
+      '+inta = 1;',
+      '@@ -4,1 +4,1 @@',
+      '-  const   b = 2;',
+      '+const b = 2;',
+      '@@ -6,1 +6,1 @@',
+      '-// LINT.ThenChange("file2.ts")',
+      '+// LINT.ThenChange("file3.ts")',
+      '@@ -8,1 +8,1 @@',
+      '-// a comment',
+      '+// another comment'
+    ].join('\n');
+    const cosmetic = findCosmeticLines(parseChangedLines(diff).get('x.ts')!);
+    expect(Array.from(cosmetic.added)).toEqual([4, 8]);
+    expect(Array.from(cosmetic.removed)).toEqual([4, 8]);
   });
 
   test('reports IfChange label in error context', async () => {
@@ -207,10 +342,8 @@ describe('lintDiff', () => {
       '@@ -1,0 +1,1 @@',
       '+// dummy file changed'
     ].join('\n');
-    const errors: string[] = [];
-    jest.spyOn(console, 'log').mockImplementation(msg => errors.push(msg));
     const code = await lintDiff(diff, 1, true);
-    expect(code).toBe(0); // file2 changed, no error
+    expect(code).toHaveLength(0); // file2 changed, no error
     // Now test missing file2 change
     const diff2 = [
       `--- a/${file1}`,
@@ -219,9 +352,9 @@ describe('lintDiff', () => {
       '-// LINT.IfChange(\'g\')',
       '+// LINT.IfChange(\'g\') // modified'
     ].join('\n');
-    errors.length = 0;
     const code2 = await lintDiff(diff2, 1, true);
-    expect(code2).toBe(1);
+    expect(code2).not.toHaveLength(0);
+    const errors = code2.map(formatDiagnostic);
     expect(errors.some(e => e.includes("file1.ts#g:1 -> ThenChange 'file2.ts' (line 2)"))).toBe(true);
   });
 
@@ -260,7 +393,7 @@ describe('lintDiff', () => {
       ' // footer'
     ].join('\n');
     const result = await lintDiff(diff, 1, true);
-    expect(result).toBe(0);
+    expect(result).toHaveLength(0);
   });
 
   test('error when labeled change missing', async () => {
@@ -298,7 +431,7 @@ describe('lintDiff', () => {
       ' // footer'
     ].join('\n');
     const result = await lintDiff(diff, 1);
-    expect(result).toBe(1);
+    expect(result).not.toHaveLength(0);
   });
 
   test('error when labeled change missing in same file', async () => {
@@ -320,10 +453,9 @@ describe('lintDiff', () => {
       '+// LINT.IfChange // changed',
     ].join('\n');
 
-    const errors: string[] = [];
-    jest.spyOn(console, 'log').mockImplementation(msg => errors.push(msg));
     const result = await lintDiff(diff, 1);
-    expect(result).toBe(1);
+    expect(result).not.toHaveLength(0);
+    const errors = result.map(formatDiagnostic);
     expect(errors.length).toBe(1);
     expect(errors[0]).toMatch(/-> ThenChange '#label1' \(line 5\): expected changes in '.+file1\.ts#label1' \(2-2\), but none found/);
   });
@@ -361,7 +493,7 @@ describe('lintDiff', () => {
       ' # LINT.ThenChange("file1.py#label")'
     ].join('\n');
     const code = await lintDiff(diff, 1);
-    expect(code).toBe(0);
+    expect(code).toHaveLength(0);
   });
 
   test('reports missing changes for referenced IfChange label', async () => {
@@ -389,13 +521,11 @@ describe('lintDiff', () => {
       '+value = 2',
       ' # LINT.ThenChange("file2.py#other")'
     ].join('\n');
-    const errors: string[] = [];
-    (console.log as jest.Mock).mockImplementation(msg => errors.push(msg));
     const code = await lintDiff(diff, 1);
-    expect(code).toBe(1);
+    expect(code).not.toHaveLength(0);
+    const errors = code.map(formatDiagnostic);
     expect(errors.some(e => e.includes(`target file '${file2}' not changed.`))).toBe(true);
     expect(errors.some(e => e.includes("label 'other' not found"))).toBe(false);
-    (console.log as jest.Mock).mockImplementation(() => {});
   });
 
   test('errors on ThenChange without preceding IfChange', async () => {
@@ -410,12 +540,10 @@ describe('lintDiff', () => {
       '-// LINT.ThenChange("foo.ts")',
       '+// LINT.ThenChange("foo.ts") // changed'
     ].join('\n');
-    const logs: string[] = [];
-    jest.spyOn(console, 'log').mockImplementation(msg => logs.push(msg));
     const code = await lintDiff(diff, 1);
-    expect(code).toBe(1);
-    expect(logs.some(l => l.includes("unexpected ThenChange 'foo.ts' without preceding IfChange"))).toBe(true);
-    (console.log as jest.Mock).mockRestore();
+    expect(code).not.toHaveLength(0);
+    expect(code.some(d => d.kind === 'orphan-then-change')).toBe(true);
+    expect(code.map(formatDiagnostic).some(l => l.includes("unexpected ThenChange 'foo.ts' without preceding IfChange"))).toBe(true);
   });
 
   test('errors on IfChange without following ThenChange', async () => {
@@ -430,12 +558,10 @@ describe('lintDiff', () => {
       '-// LINT.IfChange',
       '+// LINT.IfChange // changed'
     ].join('\n');
-    const logs: string[] = [];
-    jest.spyOn(console, 'log').mockImplementation(msg => logs.push(msg));
     const code = await lintDiff(diff, 1);
-    expect(code).toBe(1);
-    expect(logs.some(l => l.match(/missing ThenChange after IfChange\b/))).toBe(true);
-    (console.log as jest.Mock).mockRestore();
+    expect(code).not.toHaveLength(0);
+    expect(code.some(d => d.kind === 'missing-then-change')).toBe(true);
+    expect(code.map(formatDiagnostic).some(l => l.match(/missing ThenChange after IfChange\b/))).toBe(true);
   });
   test('ignores orphan ThenChange when matching ignoreList', async () => {
     const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lint-ignore-'));
@@ -451,10 +577,10 @@ describe('lintDiff', () => {
     ].join('\n');
     // Without ignoreList: should error
     const code1 = await lintDiff(diff, 1, true);
-    expect(code1).toBe(1);
+    expect(code1).not.toHaveLength(0);
     // With ignoreList: should ignore error
     const code2 = await lintDiff(diff, 1, true, ['foo.ts']);
-    expect(code2).toBe(0);
+    expect(code2).toHaveLength(0);
   });
 
   test('ignores orphan IfChange when matching ignoreList for file#label', async () => {
@@ -471,10 +597,10 @@ describe('lintDiff', () => {
     ].join('\n');
     // Without ignore: should error
     const code1 = await lintDiff(diff, 1, true);
-    expect(code1).toBe(1);
+    expect(code1).not.toHaveLength(0);
     // With ignoreList for file#lblonly: should ignore error
     const code2 = await lintDiff(diff, 1, true, ['file1.ts#lblonly']);
-    expect(code2).toBe(0);
+    expect(code2).toHaveLength(0);
   });
 
   test('file-level glob ignore skips matching files', async () => {
@@ -496,10 +622,31 @@ describe('lintDiff', () => {
     ].join('\n');
     // Without ignore: should error because target file not changed
     const code1 = await lintDiff(diff, 1, true);
-    expect(code1).toBe(1);
+    expect(code1).not.toHaveLength(0);
     // With glob ignore '*.json': should skip file.json and error is suppressed
     const code2 = await lintDiff(diff, 1, true, ['*.json']);
-    expect(code2).toBe(0);
+    expect(code2).toHaveLength(0);
+  });
+
+  test('negated ignore patterns re-include files', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lint-negate-'));
+    const fileJson = path.join(tmpDir, 'keep.json');
+    await fs.writeFile(fileJson,
+      ['// LINT.IfChange', '// LINT.ThenChange("nochange.ts")'].join('\n'), 'utf-8'
+    );
+    await fs.writeFile(path.join(tmpDir, 'nochange.ts'), '// dummy', 'utf-8');
+    const diff = [
+      `--- a/${fileJson}`,
+      `+++ b/${fileJson}`,
+      '@@ -1,2 +1,2 @@',
+      '-// LINT.IfChange',
+      '+// LINT.IfChange // changed',
+      ' // LINT.ThenChange("nochange.ts")'
+    ].join('\n');
+    expect(await lintDiff(diff, 1, false, ['**/*.json'])).toHaveLength(0);
+    expect(await lintDiff(diff, 1, false, ['**/*.json', '!keep.json'])).toHaveLength(1);
+    // Ignoring the target's directory skips the pair
+    expect(await lintDiff(diff, 1, false, [`${path.basename(tmpDir)}/`])).toHaveLength(0);
   });
 
   test('ignores specific labeled scenario via file#label', async () => {
@@ -521,10 +668,10 @@ describe('lintDiff', () => {
     ].join('\n');
     // Without ignore: should error because target not changed
     const code1 = await lintDiff(diff, 1, true);
-    expect(code1).toBe(1);
+    expect(code1).not.toHaveLength(0);
     // With ignore pattern tsconfig.json#blah: should skip this labeled scenario
     const code2 = await lintDiff(diff, 1, true, ['tsconfig.json#blah']);
-    expect(code2).toBe(0);
+    expect(code2).toHaveLength(0);
   });
 
   test('ignores specific ThenChange target label via ignoreList', async () => {
@@ -554,10 +701,10 @@ describe('lintDiff', () => {
     ].join('\n');
     // Without ignore: should report missing change in file2#lbl
     const code1 = await lintDiff(diff, 1, true);
-    expect(code1).toBe(1);
+    expect(code1).not.toHaveLength(0);
     // With ignoreList for target label: should ignore that ThenChange
     const code2 = await lintDiff(diff, 1, true, ['file2.ts#lbl']);
-    expect(code2).toBe(0);
+    expect(code2).toHaveLength(0);
   });
 
   test('ignores missing target file for labeled scenario via file#label', async () => {
@@ -578,15 +725,13 @@ describe('lintDiff', () => {
       ' // LINT.ThenChange("fileB.ts#lblX")'
     ].join('\n');
     // Without ignore: should error on missing target file
-    const errors: string[] = [];
-    jest.spyOn(console, 'log').mockImplementation(msg => errors.push(msg));
     const code1 = await lintDiff(diff, 1, true);
-    expect(code1).toBe(1);
-    expect(errors.some(e => e.includes("missing target file") || e.includes("not found"))).toBe(true);
+    expect(code1).not.toHaveLength(0);
+    expect(code1.some(d => d.kind === 'target-not-found')).toBe(true);
+    expect(code1.map(formatDiagnostic).some(e => e.includes("missing target file") || e.includes("not found"))).toBe(true);
     // With ignoreList for fileA.ts#lblX: should ignore missing target error
-    errors.length = 0;
     const code2 = await lintDiff(diff, 1, true, ['fileA.ts#lblX']);
-    expect(code2).toBe(0);
+    expect(code2).toHaveLength(0);
   });
 
   test('error when code between IfChange and ThenChange is modified but target not changed', async () => {
@@ -612,7 +757,7 @@ describe('lintDiff', () => {
       ' // LINT.ThenChange("file2.ts")'
     ].join('\n');
     const result = await lintDiff(diff, 1, true);
-    expect(result).toBe(1);
+    expect(result).not.toHaveLength(0);
   });
 
   test('no error when code between IfChange and ThenChange is modified and target is changed', async () => {
@@ -643,7 +788,7 @@ describe('lintDiff', () => {
       '+const value = 2;'
     ].join('\n');
     const result = await lintDiff(diff, 1, true);
-    expect(result).toBe(0);
+    expect(result).toHaveLength(0);
   });
 
   test('no error when only code outside IfChange/ThenChange block is modified', async () => {
@@ -673,7 +818,7 @@ describe('lintDiff', () => {
       ' const another = 2;'
     ].join('\n');
     const result = await lintDiff(diff, 1, true);
-    expect(result).toBe(0);
+    expect(result).toHaveLength(0);
   });
 
   test('detects changes within IfChange block range, not just pragma line', async () => {
@@ -718,12 +863,10 @@ describe('lintDiff', () => {
     // The linter should detect that line 5 (within the IfChange block) was modified
     // and flag that constants.py needs to be changed too
     const result = await lintDiff(diff, 1, true);
-    expect(result).toBe(1); // Should return error code 1
+    expect(result).not.toHaveLength(0); // Should return error code 1
 
     // Verify the error message mentions the expected files
-    const errors: string[] = [];
-    jest.spyOn(console, 'log').mockImplementation(msg => errors.push(msg));
-    await lintDiff(diff, 1, true);
+    const errors = result.map(formatDiagnostic);
     expect(errors.some(e =>
       e.includes('config.py:2') &&
       e.includes('ThenChange') &&
@@ -785,7 +928,7 @@ describe('lintDiff', () => {
 
     // Should NOT trigger lint error because changes are outside IfChange blocks
     const result1 = await lintDiff(diffOutsideBlocks, 1, true);
-    expect(result1).toBe(0); // No error
+    expect(result1).toHaveLength(0); // No error
 
     // Now create diff that changes code INSIDE the IfChange block (line 6)
     const diffInsideBlock = [
@@ -804,7 +947,7 @@ describe('lintDiff', () => {
 
     // Should trigger lint error because change is inside IfChange block
     const result2 = await lintDiff(diffInsideBlock, 1, true);
-    expect(result2).toBe(1); // Should error
+    expect(result2).not.toHaveLength(0); // Should error
   });
 
   test('non-cross-referenced files: detects any changes within IfChange block', async () => {
@@ -851,6 +994,215 @@ describe('lintDiff', () => {
 
     // Should trigger lint error (original behavior for non-cross-referenced files)
     const result = await lintDiff(diff, 1, true);
-    expect(result).toBe(1); // Should error
+    expect(result).not.toHaveLength(0); // Should error
+  });
+
+  test('removed lines are located in the pre-image, not the current file', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lint-'));
+    const file1 = path.join(tmpDir, 'file1.ts');
+    const file2 = path.join(tmpDir, 'file2.ts');
+    // Two lines above the block were deleted, shifting the block up to lines 1-3
+    await fs.writeFile(file1, ['// LINT.IfChange', 'const a = 1;', '// LINT.ThenChange("file2.ts")'].join('\n'));
+    await fs.writeFile(file2, 'const a = 1;\n');
+    const diff = [
+      `--- a/${file1}`,
+      `+++ b/${file1}`,
+      '@@ -1,5 +1,3 @@',
+      '-const x = 1;',
+      '-const y = 2;',
+      ' // LINT.IfChange',
+      ' const a = 1;',
+      ' // LINT.ThenChange("file2.ts")'
+    ].join('\n');
+    expect(await lintDiff(diff, 1)).toHaveLength(0);
+  });
+
+  test('removed lines in a target label are matched against its old range', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lint-'));
+    const file1 = path.join(tmpDir, 'file1.ts');
+    const file2 = path.join(tmpDir, 'file2.ts');
+    await fs.writeFile(file1, ['// LINT.IfChange', 'const a = 2;', '// LINT.ThenChange("file2.ts#consts")'].join('\n'));
+    // The only line of the label region was deleted, leaving it empty
+    await fs.writeFile(file2, ['// header', '// LINT.Label("consts")', '// LINT.EndLabel'].join('\n'));
+    const diff = [
+      `--- a/${file1}`,
+      `+++ b/${file1}`,
+      '@@ -1,3 +1,3 @@',
+      ' // LINT.IfChange',
+      '-const a = 1;',
+      '+const a = 2;',
+      ' // LINT.ThenChange("file2.ts#consts")',
+      `--- a/${file2}`,
+      `+++ b/${file2}`,
+      '@@ -1,4 +1,3 @@',
+      ' // header',
+      ' // LINT.Label("consts")',
+      '-const a = 1;',
+      ' // LINT.EndLabel'
+    ].join('\n');
+    expect(await lintDiff(diff, 1)).toHaveLength(0);
+  });
+
+  test('follows a ThenChange target renamed in the change and warns about the old path', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lint-'));
+    const file1 = path.join(tmpDir, 'file1.ts');
+    const oldTarget = path.join(tmpDir, 'old.ts');
+    const newTarget = path.join(tmpDir, 'new.ts');
+    await fs.writeFile(file1, ['// LINT.IfChange', 'const a = 2;', '// LINT.ThenChange("old.ts")'].join('\n'));
+    await fs.writeFile(newTarget, 'const a = 2;\n');
+    const diff = [
+      `--- a/${file1}`,
+      `+++ b/${file1}`,
+      '@@ -1,3 +1,3 @@',
+      ' // LINT.IfChange',
+      '-const a = 1;',
+      '+const a = 2;',
+      ' // LINT.ThenChange("old.ts")',
+      `diff --git a/${oldTarget} b/${newTarget}`,
+      'similarity index 50%',
+      `rename from ${oldTarget}`,
+      `rename to ${newTarget}`,
+      `--- a/${oldTarget}`,
+      `+++ b/${newTarget}`,
+      '@@ -1 +1 @@',
+      '-const a = 1;',
+      '+const a = 2;'
+    ].join('\n');
+    const result = await lintDiff(diff, 1);
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ kind: 'renamed-target', severity: 'warning', targetPath: newTarget });
+    expect(result[0].message).toContain(`'${oldTarget}' was renamed to '${newTarget}'`);
+  });
+
+  test('a pure rename of a ThenChange target does not count as changing it', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lint-'));
+    const file1 = path.join(tmpDir, 'file1.ts');
+    await fs.writeFile(file1, ['// LINT.IfChange', 'const a = 2;', '// LINT.ThenChange("old.ts")'].join('\n'));
+    await fs.writeFile(path.join(tmpDir, 'new.ts'), 'const a = 1;\n');
+    const diff = [
+      `--- a/${file1}`,
+      `+++ b/${file1}`,
+      '@@ -1,3 +1,3 @@',
+      ' // LINT.IfChange',
+      '-const a = 1;',
+      '+const a = 2;',
+      ' // LINT.ThenChange("old.ts")',
+      `diff --git a/${tmpDir}/old.ts b/${tmpDir}/new.ts`,
+      'similarity index 100%',
+      'rename from old.ts',
+      'rename to new.ts'
+    ].join('\n');
+    const kinds = (await lintDiff(diff, 1)).map(d => d.kind).sort();
+    expect(kinds).toEqual(['renamed-target', 'target-not-changed']);
+  });
+
+  test('reports a deleted IfChange block whose targets did not change', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lint-'));
+    const removed = path.join(tmpDir, 'removed.ts');
+    const file2 = path.join(tmpDir, 'file2.ts');
+    await fs.writeFile(file2, 'const a = 1;\n');
+    const deletion = [
+      `--- a/${removed}`,
+      '+++ /dev/null',
+      '@@ -1,3 +0,0 @@',
+      '-// LINT.IfChange',
+      '-const a = 1;',
+      '-// LINT.ThenChange("file2.ts")'
+    ];
+    const result = await lintDiff(deletion.join('\n'), 1);
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ kind: 'if-change-deleted', file: removed, line: 1, targetPath: file2 });
+    expect(result[0].message).toBe("IfChange block deleted; targets 'file2.ts' must change.");
+
+    const withTarget = [
+      ...deletion,
+      `--- a/${file2}`,
+      `+++ b/${file2}`,
+      '@@ -1 +1 @@',
+      '-const a = 1;',
+      '+const a = 2;'
+    ];
+    await fs.writeFile(file2, 'const a = 2;\n');
+    expect(await lintDiff(withTarget.join('\n'), 1)).toHaveLength(0);
+  });
+
+  test('reports ThenChange references to a target deleted in the change', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lint-'));
+    const file1 = path.join(tmpDir, 'file1.ts');
+    const file2 = path.join(tmpDir, 'file2.ts');
+    await fs.writeFile(file1, ['// LINT.IfChange', 'const a = 2;', '// LINT.ThenChange("file2.ts")'].join('\n'));
+    const diff = [
+      `--- a/${file1}`,
+      `+++ b/${file1}`,
+      '@@ -1,3 +1,3 @@',
+      ' // LINT.IfChange',
+      '-const a = 1;',
+      '+const a = 2;',
+      ' // LINT.ThenChange("file2.ts")',
+      `--- a/${file2}`,
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-const a = 1;'
+    ].join('\n');
+    const result = await lintDiff(diff, 1);
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ kind: 'target-deleted', file: file1, targetPath: file2 });
+    expect(result[0].message).toBe(
+      `ThenChange target 'file2.ts' was deleted in this change; update the reference in ${file1} (line 3).`
+    );
+  });
+
+  test('resolves //path targets against the repository root', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lint-root-'));
+    await fs.mkdir(path.join(tmpDir, 'src', 'a'), { recursive: true });
+    await fs.mkdir(path.join(tmpDir, 'docs'));
+    const file1 = path.join(tmpDir, 'src', 'a', 'file1.ts');
+    const file2 = path.join(tmpDir, 'docs', 'file2.md');
+    await fs.writeFile(file1, ['// LINT.IfChange', 'const a = 2;', '// LINT.ThenChange("//docs/file2.md")'].join('\n'));
+    await fs.writeFile(file2, 'a is 2\n');
+    const sourceDiff = [
+      `--- a/${file1}`,
+      `+++ b/${file1}`,
+      '@@ -1,3 +1,3 @@',
+      ' // LINT.IfChange',
+      '-const a = 1;',
+      '+const a = 2;',
+      ' // LINT.ThenChange("//docs/file2.md")'
+    ];
+    const targetDiff = [`--- a/${file2}`, `+++ b/${file2}`, '@@ -1 +1 @@', '-a is 1', '+a is 2'];
+    const result = await lintDiff(sourceDiff.join('\n'), 1, false, [], { root: tmpDir });
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ kind: 'target-not-changed', target: '//docs/file2.md', targetPath: file2 });
+    expect(await lintDiff([...sourceDiff, ...targetDiff].join('\n'), 1, false, [], { root: tmpDir })).toHaveLength(0);
+  });
+
+  test('reports nested IfChange blocks and unbalanced labels in changed files', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'lint-structure-'));
+    const file1 = path.join(tmpDir, 'file1.ts');
+    await fs.writeFile(path.join(tmpDir, 'file2.ts'), '// dummy');
+    await fs.writeFile(file1, [
+      '// LINT.IfChange',
+      '// LINT.IfChange("inner")',
+      'const a = 2;',
+      '// LINT.ThenChange("file2.ts")',
+      '// LINT.Label("open")'
+    ].join('\n'));
+    const diff = [
+      `--- a/${file1}`,
+      `+++ b/${file1}`,
+      '@@ -1,5 +1,5 @@',
+      ' // LINT.IfChange',
+      ' // LINT.IfChange("inner")',
+      '-const a = 1;',
+      '+const a = 2;',
+      ' // LINT.ThenChange("file2.ts")',
+      ' // LINT.Label("open")'
+    ].join('\n');
+    const result = await lintDiff(diff, 1);
+    expect(result.map(d => [d.kind, d.line])).toEqual([
+      ['nested-if-change', 2],
+      ['unbalanced-label', 5],
+      ['target-not-changed', 2]
+    ]);
   });
 });
@@ -0,0 +1,61 @@
+import { applyOverrides, hasOverrides, parseOverrides } from '../src/Override';
+import { LintDiagnostic } from '../src/Diagnostics';
+import { runLint } from '../src/main';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+const notChanged = (target: string, targetPath: string): LintDiagnostic => ({
+  kind: 'target-not-changed', file: '/repo/src/a.ts', line: 1, target, targetPath, thenLine: 3,
+  message: `ThenChange '${target}' (line 3): target file '${targetPath}' not changed.`
+});
+
+describe('NO_IFTTT overrides', () => {
+  it('parses markers from a change description', () => {
+    expect(parseOverrides([
+      'Fix a typo in a comment',
+      '',
+      'NO_IFTTT=comment-only change',
+      'NO_IFTTT_FILE=//docs/api.md#flags docs are regenerated',
+      '  NO_IFTTT_FILE=src/b.ts'
+    ].join('\n'))).toEqual({
+      reason: 'comment-only change',
+      files: [{ file: 'docs/api.md', label: 'flags', reason: 'docs are regenerated' }, { file: 'src/b.ts' }]
+    });
+    expect(hasOverrides(parseOverrides('Refactor NO_IFTTT handling'))).toBe(false);
+  });
+
+  it('downgrades matching findings to info with the reason', () => {
+    const diagnostics = [
+      notChanged('b.ts#x', '/repo/src/b.ts'),
+      notChanged('c.ts', '/repo/src/c.ts'),
+      { kind: 'label-not-found', file: '/repo/src/a.ts', line: 3, message: 'missing' } as LintDiagnostic
+    ];
+    const byFile = applyOverrides(diagnostics, parseOverrides('NO_IFTTT_FILE=src/b.ts#x typo'), '/repo');
+    expect(byFile[0]).toMatchObject({ severity: 'info', overrideReason: 'typo' });
+    expect(byFile[0].message).toMatch(/Skipped by NO_IFTTT_FILE=src\/b\.ts#x: typo$/);
+    expect(byFile.slice(1)).toEqual(diagnostics.slice(1));
+    expect(applyOverrides(diagnostics, parseOverrides('NO_IFTTT_FILE=src/b.ts#y'), '/repo')[0]).toBe(diagnostics[0]);
+
+    const all = applyOverrides(diagnostics, parseOverrides('NO_IFTTT=whitespace only'), '/repo');
+    expect(all.map(d => d.severity)).toEqual(['info', 'info', undefined]);
+    expect(all[1].message).toMatch(/Skipped by NO_IFTTT: whitespace only$/);
+  });
+
+  it('applies the description given to runLint', async () => {
+    const dir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'ifttt-override-')));
+    const file1 = path.join(dir, 'file1.ts');
+    await fs.writeFile(file1, ['// LINT.IfChange', 'const a = 2;', '// LINT.ThenChange("file2.ts")'].join('\n'));
+    await fs.writeFile(path.join(dir, 'file2.ts'), 'const a = 1;\n');
+    const diff = [
+      `--- a/${file1}`, `+++ b/${file1}`, '@@ -1,3 +1,3 @@',
+      ' // LINT.IfChange', '-const a = 1;', '+const a = 2;', ' // LINT.ThenChange("file2.ts")'
+    ].join('\n');
+    const diagnostics = await runLint({ diffText: diff }, 1, false, [], {
+      config: null, root: dir, description: 'NO_IFTTT_FILE=file2.ts value is read from the other file'
+    });
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ severity: 'info', overrideReason: 'value is read from the other file' });
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,89 @@
+import { formatDiagnostic, formatJson, formatSummary, printReport } from '../src/Reporter';
+import { LintDiagnostic } from '../src/Diagnostics';
+
+const diagnostics: LintDiagnostic[] = [
+  {
+    kind: 'target-not-changed',
+    file: 'src/b.ts',
+    line: 3,
+    ifLabel: 'cfg',
+    target: 'a.ts',
+    targetPath: 'src/a.ts',
+    thenLine: 5,
+    message: "ThenChange 'a.ts' (line 5): target file 'src/a.ts' not changed."
+  },
+  {
+    kind: 'duplicate-label',
+    file: 'src/a.ts',
+    line: 7,
+    label: 'x',
+    message: "duplicate directive label 'x'"
+  }
+];
+
+describe('text reporter', () => {
+  it('formats labeled locations as file#label:line', () => {
+    expect(formatDiagnostic(diagnostics[0])).toBe(
+      "[ifttt] src/b.ts#cfg:3 -> ThenChange 'a.ts' (line 5): target file 'src/a.ts' not changed."
+    );
+    expect(formatDiagnostic(diagnostics[1])).toBe("[ifttt] src/a.ts:7 -> duplicate directive label 'x'");
+  });
+
+  it('marks warnings', () => {
+    expect(formatDiagnostic({ ...diagnostics[1], severity: 'warning' })).toBe(
+      "[ifttt] src/a.ts:7 -> warning: duplicate directive label 'x'"
+    );
+    expect(formatDiagnostic({ ...diagnostics[1], severity: 'info' })).toBe(
+      "[ifttt] src/a.ts:7 -> info: duplicate directive label 'x'"
+    );
+  });
+
+  it('prints one line per diagnostic', () => {
+    const lines: string[] = [];
+    printReport({ mode: 'diff', diagnostics, exitCode: 1 }, 'text', l => lines.push(l));
+    expect(lines).toHaveLength(2);
+  });
+});
+
+describe('JSON reporter', () => {
+  it('includes summary counts, exit code and sorted findings', () => {
+    const doc = JSON.parse(formatJson({ mode: 'scan', diagnostics, exitCode: 1 }));
+    expect(doc.mode).toBe('scan');
+    expect(doc.exitCode).toBe(1);
+    expect(doc.summary).toEqual({
+      total: 2,
+      files: 2,
+      byKind: { 'target-not-changed': 1, 'duplicate-label': 1 },
+      bySeverity: { error: 2 }
+    });
+    expect(doc.diagnostics.map((d: LintDiagnostic) => d.file)).toEqual(['src/a.ts', 'src/b.ts']);
+  });
+
+  it('emits an empty findings list for clean runs', () => {
+    const doc = JSON.parse(formatJson({ mode: 'diff', diagnostics: [], exitCode: 0 }));
+    expect(doc.summary.total).toBe(0);
+    expect(doc.diagnostics).toEqual([]);
+  });
+});
+
+describe('summary reporter', () => {
+  it('counts findings, fits lines to the width and says what to do', () => {
+    const lines = formatSummary({ mode: 'diff', diagnostics, exitCode: 1 }, 60).split('\n');
+    expect(lines[0]).toBe('ifttt-lint: 2 errors in 2 files');
+    expect(lines[1]).toBe("  src/a.ts:7 -> duplicate directive label 'x'");
+    expect(lines[2]).toHaveLength(60);
+    expect(lines[2]).toMatch(/^  src\/b\.ts#cfg:3 -> ThenChange 'a\.ts'.*\.\.\.$/);
+    expect(lines[3]).toMatch(/^Stage updates to the ThenChange targets above/);
+    expect(lines[4]).toBe('To commit anyway: git commit --no-verify');
+  });
+
+  it('limits the listed findings and reports clean runs in one line', () => {
+    const many = Array.from({ length: 12 }, (_, i) => ({ ...diagnostics[1], line: i + 1, severity: 'warning' as const }));
+    const lines = formatSummary({ mode: 'diff', diagnostics: many, exitCode: 0 }).split('\n');
+    expect(lines[0]).toBe('ifttt-lint: 12 warnings in 1 file');
+    expect(lines).toHaveLength(12);
+    expect(lines[11]).toBe('  ... and 2 more');
+    expect(formatSummary({ mode: 'diff', diagnostics: [], exitCode: 0, checks: [{ file: 'a.ts' }] }))
+      .toBe('ifttt-lint: no findings (1 check passed)');
+  });
+});
@@ -0,0 +1,113 @@
+import { formatSarif } from '../src/SarifReporter';
+import { lintDiff } from '../src/LintEngine';
+import { runScan } from '../src/main';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+beforeEach(() => {
+  jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+});
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('SARIF reporter', () => {
+  it('describes every rule and reports an empty run', () => {
+    const log = JSON.parse(formatSarif({ mode: 'diff', diagnostics: [], exitCode: 0 }));
+    expect(log.version).toBe('2.1.0');
+    const driver = log.runs[0].tool.driver;
+    expect(driver.name).toBe('ifttt-lint');
+    const ids = driver.rules.map((r: { id: string }) => r.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(driver.rules.every((r: { help: { text: string } }) => r.help.text.length > 0)).toBe(true);
+    expect(log.runs[0].results).toEqual([]);
+  });
+
+  it('reports warnings at warning level', () => {
+    const log = JSON.parse(formatSarif({
+      mode: 'diff',
+      diagnostics: [{ kind: 'renamed-target', severity: 'warning', file: 'a.ts', line: 1, message: 'renamed' }],
+      exitCode: 0
+    }));
+    const rules = log.runs[0].tool.driver.rules;
+    const [result] = log.runs[0].results;
+    expect(result.level).toBe('warning');
+    expect(rules[result.ruleIndex].defaultConfiguration.level).toBe('warning');
+  });
+
+  it('reports accepted findings as notes', () => {
+    const log = JSON.parse(formatSarif({
+      mode: 'diff',
+      diagnostics: [{ kind: 'target-not-changed', severity: 'info', file: 'a.ts', line: 1, message: 'accepted' }],
+      exitCode: 0
+    }));
+    expect(log.runs[0].results[0].level).toBe('note');
+  });
+
+  it('maps diff findings to IfChange location with ThenChange and target as related locations', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sarif-'));
+    const file1 = path.join(tmpDir, 'file1.ts');
+    const file2 = path.join(tmpDir, 'file2.ts');
+    await fs.writeFile(file1, ['// LINT.IfChange', 'const a = 1;', '// LINT.ThenChange("file2.ts")'].join('\n'));
+    await fs.writeFile(file2, 'const a = 1;');
+    const diff = [
+      `--- a/${file1}`,
+      `+++ b/${file1}`,
+      '@@ -1,3 +1,3 @@',
+      ' // LINT.IfChange',
+      '-const a = 1;',
+      '+const a = 2;',
+      ' // LINT.ThenChange("file2.ts")'
+    ].join('\n');
+    const diagnostics = await lintDiff(diff, 1);
+    const log = JSON.parse(formatSarif({ mode: 'diff', diagnostics, exitCode: 1 }, tmpDir));
+    expect(log.runs[0].originalUriBaseIds).toEqual({ '%SRCROOT%': { uri: `${pathToFileURL(tmpDir).href}/` } });
+    const rules = log.runs[0].tool.driver.rules;
+    const [result] = log.runs[0].results;
+    expect(rules[result.ruleIndex].id).toBe(result.ruleId);
+    expect(rules[result.ruleIndex].properties.kind).toBe('target-not-changed');
+    expect(result.level).toBe('error');
+    expect(result.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'file1.ts', uriBaseId: '%SRCROOT%' },
+      region: { startLine: 1 }
+    });
+    expect(result.relatedLocations).toEqual([
+      expect.objectContaining({
+        physicalLocation: { artifactLocation: { uri: 'file1.ts', uriBaseId: '%SRCROOT%' }, region: { startLine: 3 } }
+      }),
+      expect.objectContaining({
+        physicalLocation: { artifactLocation: { uri: 'file2.ts', uriBaseId: '%SRCROOT%' } }
+      })
+    ]);
+  });
+
+  it('reports scan findings', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sarif-scan-'));
+    await fs.writeFile(path.join(dir, 'dup.ts'), ['// LINT.Label("a")', '// LINT.Label("a")', '// LINT.EndLabel', '// LINT.EndLabel'].join('\n'));
+    const diagnostics = await runScan(dir, 1, false);
+    const log = JSON.parse(formatSarif({ mode: 'scan', diagnostics, exitCode: 1 }));
+    expect(log.runs[0].automationDetails.id).toBe('ifttt-lint/scan/');
+    expect(log.runs[0].results).toHaveLength(1);
+    expect(log.runs[0].results[0].locations[0].physicalLocation.region.startLine).toBe(2);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('uses forward-slash URIs relative to the repository root', () => {
+    const log = JSON.parse(formatSarif({
+      mode: 'diff',
+      diagnostics: [{ kind: 'missing-then-change', file: 'src/a.ts', line: 4, message: 'missing ThenChange after IfChange' }],
+      exitCode: 1
+    }));
+    expect(log.runs[0].results[0].locations[0].physicalLocation.artifactLocation.uri).toBe('src/a.ts');
+    expect(log.runs[0].results[0].relatedLocations).toBeUndefined();
+    const nested = JSON.parse(formatSarif({
+      mode: 'scan',
+      diagnostics: [{ kind: 'missing-then-change', file: '/repo/src/my file.ts', line: 4, message: 'missing' }],
+      exitCode: 1
+    }, '/repo'));
+    expect(nested.runs[0].results[0].locations[0].physicalLocation.artifactLocation)
+      .toEqual({ uri: 'src/my%20file.ts', uriBaseId: '%SRCROOT%' });
+  });
+});
@@ -0,0 +1,63 @@
+import { parseDirectivesFromContent } from '../src/DirectiveParser';
+import { validateDirectiveStructure } from '../src/StructureValidator';
+
+/** Validates the structure of the given comment lines and returns `[kind, line]` pairs. */
+function findings(lines: string[]): Array<[string, number]> {
+  const directives = parseDirectivesFromContent(lines.join('\n'), 'a.ts');
+  return validateDirectiveStructure(directives, 'a.ts').map(d => [d.kind, d.line]);
+}
+
+describe('validateDirectiveStructure', () => {
+  it('accepts labels nested inside blocks and blocks nested inside labels', () => {
+    expect(findings([
+      '// LINT.Label("outer")',
+      '// LINT.IfChange("a")',
+      '// LINT.Label("inner")',
+      '// LINT.EndLabel',
+      '// LINT.ThenChange(["b.ts", "c.ts"])',
+      '// LINT.EndLabel'
+    ])).toEqual([]);
+  });
+
+  it('reports unclosed labels and stray EndLabels', () => {
+    expect(findings([
+      '// LINT.EndLabel',
+      '// LINT.Label("open")',
+      '// LINT.Label("closed")',
+      '// LINT.EndLabel'
+    ])).toEqual([['unbalanced-label', 1], ['unbalanced-label', 2]]);
+  });
+
+  it('reports an IfChange opened inside an open IfChange', () => {
+    const directives = parseDirectivesFromContent(
+      ['// LINT.IfChange("outer")', '// LINT.IfChange("inner")', '// LINT.ThenChange("b.ts")'].join('\n'), 'a.ts'
+    );
+    const [nested] = validateDirectiveStructure(directives, 'a.ts');
+    expect(nested).toMatchObject({ kind: 'nested-if-change', line: 2, ifLabel: 'inner' });
+    expect(nested.message).toBe("IfChange('inner') opened inside IfChange('outer') at line 1, which has no ThenChange");
+  });
+
+  it('reports labels that separate a ThenChange from its IfChange', () => {
+    expect(findings([
+      '// LINT.IfChange',
+      '// LINT.Label("x")',
+      '// LINT.ThenChange("b.ts")',
+      '// LINT.EndLabel'
+    ])).toEqual([['label-crosses-block', 3]]);
+    expect(findings([
+      '// LINT.Label("x")',
+      '// LINT.IfChange',
+      '// LINT.EndLabel',
+      '// LINT.ThenChange("b.ts")'
+    ])).toEqual([['label-crosses-block', 3]]);
+  });
+
+  it('reports unpaired IfChange and ThenChange directives', () => {
+    expect(findings([
+      '// LINT.ThenChange("b.ts")',
+      '// LINT.IfChange',
+      '// LINT.ThenChange("b.ts")',
+      '// LINT.IfChange'
+    ])).toEqual([['orphan-then-change', 1], ['missing-then-change', 4]]);
+  });
+});
@@ -0,0 +1,96 @@
+import { formatCheckstyle, formatJunit } from '../src/XmlReporter';
+import { LintCheck } from '../src/Diagnostics';
+import { lintDiff } from '../src/LintEngine';
+import { runScan } from '../src/main';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+beforeEach(() => {
+  jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+});
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+/** Builds two files where file1 has one changed block pointing at a changed and an unchanged target. */
+async function setupDiff() {
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'xml-'));
+  const file1 = path.join(tmpDir, 'file1.ts');
+  const file2 = path.join(tmpDir, 'file2.ts');
+  const file3 = path.join(tmpDir, 'file3.ts');
+  await fs.writeFile(file1, ['// LINT.IfChange("a")', 'x < 1 && y', '// LINT.ThenChange(["file2.ts", "file3.ts"])'].join('\n'));
+  await fs.writeFile(file2, 'two');
+  await fs.writeFile(file3, 'three');
+  const diff = [
+    `--- a/${file1}`,
+    `+++ b/${file1}`,
+    '@@ -1,3 +1,3 @@',
+    ' // LINT.IfChange("a")',
+    '-x < 0 && y',
+    '+x < 1 && y',
+    ' // LINT.ThenChange(["file2.ts", "file3.ts"])',
+    `--- a/${file2}`,
+    `+++ b/${file2}`,
+    '@@ -1 +1 @@',
+    '-one',
+    '+two'
+  ].join('\n');
+  return { file1, diff };
+}
+
+describe('JUnit reporter', () => {
+  it('emits one test case per linted pair, grouped by source file', async () => {
+    const { file1, diff } = await setupDiff();
+    const checks: LintCheck[] = [];
+    const diagnostics = await lintDiff(diff, 1, false, [], {
+      onPair: p => checks.push({ file: p.file, line: p.ifLine, ifLabel: p.ifLabel, target: p.thenTarget, thenLine: p.thenLine })
+    });
+    expect(checks).toHaveLength(2);
+    const xml = formatJunit({ mode: 'diff', diagnostics, exitCode: 1, checks });
+    expect(xml).toContain('<testsuites name="ifttt-lint (diff)" tests="2" failures="1">');
+    expect(xml).toContain(`<testsuite name="${file1}" tests="2" failures="1">`);
+    expect(xml).toContain(`name="IfChange(&apos;a&apos;) (line 1) -&gt; ThenChange &apos;file2.ts&apos; (line 3)"/>`);
+    expect(xml).toMatch(/ThenChange &apos;file3.ts&apos; \(line 3\)">\n\s+<failure type="target-not-changed"/);
+  });
+
+  it('emits one test case per scanned file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'xml-scan-'));
+    const good = path.join(dir, 'good.ts');
+    const bad = path.join(dir, 'bad.ts');
+    await fs.writeFile(good, ['// LINT.Label("a")', '// LINT.EndLabel'].join('\n'));
+    await fs.writeFile(bad, ['// LINT.Label("a")', '// LINT.EndLabel', '// LINT.Label("a")', '// LINT.EndLabel'].join('\n'));
+    const checks: LintCheck[] = [];
+    const diagnostics = await runScan(dir, 1, false, { onFile: file => checks.push({ file }) });
+    const xml = formatJunit({ mode: 'scan', diagnostics, exitCode: 1, checks });
+    expect(xml).toContain('tests="2" failures="1"');
+    expect(xml).toContain(`<testcase classname="${good}" name="LINT directives"/>`);
+    expect(xml).toContain('<failure type="duplicate-label"');
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('reports findings outside any check as their own failing test case', () => {
+    const xml = formatJunit({
+      mode: 'diff',
+      diagnostics: [{ kind: 'missing-then-change', file: 'a.ts', line: 2, message: 'missing ThenChange after IfChange' }],
+      exitCode: 1
+    });
+    expect(xml).toContain('<testcase classname="a.ts" name="missing-then-change (line 2)">');
+  });
+});
+
+describe('Checkstyle reporter', () => {
+  it('emits an error element per finding under its file', async () => {
+    const { file1, diff } = await setupDiff();
+    const diagnostics = await lintDiff(diff, 1);
+    const xml = formatCheckstyle({ mode: 'diff', diagnostics, exitCode: 1 });
+    expect(xml).toContain('<checkstyle version="4.3">');
+    expect(xml).toContain(`<file name="${file1}">`);
+    expect(xml).toMatch(/<error line="1" column="1" severity="error" message="ThenChange &apos;file3.ts&apos;[^"]*" source="ifttt-lint.target-not-changed"\/>/);
+  });
+
+  it('emits an empty document for clean runs', () => {
+    expect(formatCheckstyle({ mode: 'scan', diagnostics: [], exitCode: 0 }))
+      .toBe('<?xml version="1.0" encoding="UTF-8"?>\n<checkstyle version="4.3">\n</checkstyle>');
+  });
+});
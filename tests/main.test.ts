@@ -19,7 +19,7 @@ describe('runLint', () => {
   it('returns 0 and logs parallelism for empty diff text', async () => {
     const code = await runLint({ diffText: '' }, concurrency, true);
     expect(stderrSpy).toHaveBeenCalledWith(`Parallelism: ${concurrency}\n`);
-    expect(code).toBe(0);
+    expect(code).toHaveLength(0);
   });
 
   it('reads diff from file and returns 0', async () => {
@@ -27,7 +27,7 @@ describe('runLint', () => {
     await fs.writeFile(tmpFile, '', 'utf-8');
     const code = await runLint({ filePath: tmpFile }, concurrency, true);
     expect(stderrSpy).toHaveBeenCalledWith(`Parallelism: ${concurrency}\n`);
-    expect(code).toBe(0);
+    expect(code).toHaveLength(0);
     await fs.unlink(tmpFile);
   });
 
@@ -54,7 +54,23 @@ index 1234567..0000000
 -  bucket = "my-sync-bucket"
 -}`;
     const code = await runLint({ diffText: deletedFileDiff }, concurrency, true);
-    expect(code).toBe(0);
+    expect(code).toHaveLength(0);
+  });
+
+  it('reports references to a deleted file from files outside the diff', async () => {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'deleted-target-'));
+    const source = path.join(tmpDir, 'a.ts');
+    const deleted = path.join(tmpDir, 'sub', 'b.ts');
+    await fs.writeFile(source, ['// LINT.IfChange', 'const a = 1;', '// LINT.ThenChange("sub/b.ts")'].join('\n'));
+    const diff = [`--- a/${deleted}`, '+++ /dev/null', '@@ -1 +0,0 @@', '-const b = 1;'].join('\n');
+    const options = { root: tmpDir, config: null };
+    const diagnostics = await runLint({ diffText: diff }, concurrency, false, [], options);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      kind: 'target-deleted', severity: 'error', file: path.relative(process.cwd(), source), line: 1, thenLine: 3, targetPath: deleted
+    });
+    expect(await runLint({ diffText: diff }, concurrency, false, ['sub/b.ts'], options)).toHaveLength(0);
+    await fs.rm(tmpDir, { recursive: true, force: true });
   });
 });
 
@@ -103,6 +119,10 @@ describe('parseCliArgs', () => {
     const opts = parseCliArgs(['a', 'b']);
     expect(opts.error).toBe('Too many arguments');
   });
+  it('parses --config', () => {
+    expect(parseCliArgs(['-c', 'cfg.json']).config).toBe('cfg.json');
+    expect(parseCliArgs(['--config']).error).toBe('Missing value for --config');
+  });
   it('parses diffFile as positional', () => {
     const opts = parseCliArgs(['file.diff']);
     expect(opts.diffFile).toBe('file.diff');
@@ -127,6 +147,102 @@ describe('parseCliArgs', () => {
     const opts = parseCliArgs(['--ignore']);
     expect(opts.error).toMatch(/Missing value for --ignore/);
   });
+  it('parses ignore file option', () => {
+    expect(parseCliArgs(['--ignore-file', '.iftttignore']).ignoreFile).toBe('.iftttignore');
+    expect(parseCliArgs(['--ignore-file']).error).toMatch(/Missing value for --ignore-file/);
+  });
+  it('parses format option', () => {
+    expect(parseCliArgs(['--format', 'json']).format).toBe('json');
+    expect(parseCliArgs(['-f', 'text']).format).toBe('text');
+  });
+  it('rejects unknown format value', () => {
+    const opts = parseCliArgs(['--format', 'yaml']);
+    expect(opts.error).toMatch(/Invalid format value: yaml/);
+  });
+  it('rejects missing format value', () => {
+    const opts = parseCliArgs(['--format']);
+    expect(opts.error).toMatch(/Missing value for --format/);
+  });
+  it('parses git diff options', () => {
+    expect(parseCliArgs(['--base', 'origin/main'])).toMatchObject({ base: 'origin/main', staged: false, workingTree: false });
+    expect(parseCliArgs(['--base', 'main', '--head', 'feature'])).toMatchObject({ base: 'main', head: 'feature' });
+    expect(parseCliArgs(['--staged']).staged).toBe(true);
+    expect(parseCliArgs(['--working-tree']).workingTree).toBe(true);
+  });
+  it('rejects conflicting git diff options', () => {
+    expect(parseCliArgs(['--staged', '--working-tree']).error).toMatch(/mutually exclusive/);
+    expect(parseCliArgs(['--head', 'HEAD']).error).toBe('Option --head requires --base');
+    expect(parseCliArgs(['--staged', 'changes.diff']).error).toMatch(/cannot be combined/);
+    expect(parseCliArgs(['--base']).error).toBe('Missing value for --base');
+  });
+  it('parses the graph command', () => {
+    expect(parseCliArgs(['graph', 'src', '--graph-format', 'mermaid', '--focus', 'src/a.ts', '--depth', '2', '-v']))
+      .toMatchObject({ graphDir: 'src', graphFormat: 'mermaid', focus: 'src/a.ts', depth: 2, verbose: true, diffFile: undefined });
+    expect(parseCliArgs(['graph', 'src', '--graph-format', 'png']).error).toMatch(/Invalid graph format value: png/);
+    expect(parseCliArgs(['--focus', 'src/a.ts']).error).toMatch(/unknown option '--focus'/);
+    expect(parseCliArgs(['graph']).error).toMatch(/missing required argument 'dir'/);
+    expect(parseCliArgs(['graph', 'src', 'lib']).error).toBe('Too many arguments');
+    expect(parseCliArgs(['graph', 'src', '--scan', 'src']).error).toBe('Command graph cannot be combined with a lint mode');
+    expect(parseCliArgs(['graph', 'src', '-f', 'json']).error).toBe('Command graph takes --graph-format instead of --format');
+  });
+  it('parses the impact command', () => {
+    expect(parseCliArgs(['impact', 'src/a.ts:12', '--transitive', '-f', 'json']))
+      .toMatchObject({ impact: 'src/a.ts:12', transitive: true, format: 'json' });
+    expect(parseCliArgs(['impact', 'src/a.ts', '-f', 'sarif']).error).toBe('Command impact supports only the text and json formats');
+    expect(parseCliArgs(['--transitive']).error).toMatch(/unknown option '--transitive'/);
+    expect(parseCliArgs(['impact']).error).toMatch(/missing required argument/);
+  });
+  it('parses the dependents command', () => {
+    expect(parseCliArgs(['dependents', 'src/b.py#consts']).dependents).toBe('src/b.py#consts');
+    expect(parseCliArgs(['dependents', 'b.py', '--staged']).error).toBe('Command dependents cannot be combined with a lint mode');
+    expect(parseCliArgs(['dependents', 'b.py', '-f', 'junit']).error).toBe('Command dependents supports only the text and json formats');
+  });
+  it('parses the analyze options', () => {
+    expect(parseCliArgs(['--analyze', 'src', '--require-symmetry']))
+      .toMatchObject({ analyzeDir: 'src', requireSymmetry: true });
+    expect(parseCliArgs(['--analyze', 'src', '--warn', '--max-warnings', '2']).maxWarnings).toBe(2);
+    expect(parseCliArgs(['--analyze', 'src', '--scan', 'src']).error).toMatch(/cannot be combined/);
+    expect(parseCliArgs(['graph', 'src', '--analyze', 'src']).error).toBe('Command graph cannot be combined with a lint mode');
+    expect(parseCliArgs(['--require-symmetry']).error).toBe('Option --require-symmetry requires --analyze');
+    expect(parseCliArgs(['--analyze']).error).toBe('Missing value for --analyze');
+  });
+  it('parses the baseline options', () => {
+    expect(parseCliArgs(['--scan', '.', '--baseline', 'ifttt-baseline.json']).baseline).toBe('ifttt-baseline.json');
+    expect(parseCliArgs(['--scan', '.', '--write-baseline', 'b.json']).writeBaseline).toBe('b.json');
+    expect(parseCliArgs(['--baseline', 'b.json']).error).toBe('Options --baseline and --write-baseline require --scan');
+    expect(parseCliArgs(['--scan', '.', '--baseline', 'a.json', '--write-baseline', 'b.json']).error)
+      .toBe('Options --baseline and --write-baseline are mutually exclusive');
+  });
+  it('parses the description option', () => {
+    expect(parseCliArgs(['--base', 'main', '--description', '-']).description).toBe('-');
+    expect(parseCliArgs(['--description', 'msg.txt', 'changes.diff']).description).toBe('msg.txt');
+    expect(parseCliArgs(['--description', '-']).error).toBe('Option --description - cannot read stdin when the diff is read from stdin');
+    expect(parseCliArgs(['--scan', '.', '--description', 'msg.txt']).error).toBe('Option --description applies only to diff mode');
+  });
+  it('parses the semantic option', () => {
+    expect(parseCliArgs(['--semantic', 'changes.diff']).semantic).toBe(true);
+    expect(parseCliArgs(['--base', 'main', '--semantic']).semantic).toBe(true);
+    expect(parseCliArgs(['changes.diff']).semantic).toBeUndefined();
+    expect(parseCliArgs(['--scan', '.', '--semantic']).error).toBe('Option --semantic applies only to diff mode');
+  });
+  it('parses the pre-commit mode and install-hook command', () => {
+    expect(parseCliArgs(['--pre-commit'])).toMatchObject({ preCommit: true, staged: true });
+    expect(parseCliArgs(['--pre-commit', '--base', 'main']).error).toBe('Option --pre-commit cannot be combined with --base or --working-tree');
+    expect(parseCliArgs(['install-hook'])).toMatchObject({ installHook: true, force: false, diffFile: undefined });
+    expect(parseCliArgs(['install-hook', '--force']).force).toBe(true);
+    expect(parseCliArgs(['install-hook', '--scan', '.']).error).toBe('Command install-hook cannot be combined with a lint mode');
+    expect(parseCliArgs(['--force']).error).toMatch(/unknown option '--force'/);
+    // A diff file named like a command is given as a path
+    expect(parseCliArgs(['./install-hook'])).toMatchObject({ diffFile: './install-hook' });
+    expect(parseCliArgs(['./install-hook']).installHook).toBeUndefined();
+  });
+  it('parses the max-warnings option', () => {
+    expect(parseCliArgs(['--scan', '.', '--max-warnings', '0']).maxWarnings).toBe(0);
+    expect(parseCliArgs(['--max-warnings', '10', 'changes.diff']).maxWarnings).toBe(10);
+    expect(parseCliArgs(['--max-warnings', '1.5']).error).toMatch(/Invalid max-warnings value: 1\.5/);
+    expect(parseCliArgs(['--max-warnings']).error).toBe('Missing value for --max-warnings');
+    expect(parseCliArgs(['graph', '.', '--max-warnings', '1']).error).toBe('Option --max-warnings applies only to diff, scan and analyze modes');
+  });
 });
 
 describe('runLint integration with parallelism flag', () => {
@@ -138,7 +254,7 @@ describe('runLint integration with parallelism flag', () => {
     // Invoke runLint directly with empty diff and custom concurrency
     const { runLint } = require('../src/main');
     const code = await runLint({ diffText: '' }, concurrency, true);
-    expect(code).toBe(0);
+    expect(code).toHaveLength(0);
     expect(spy).toHaveBeenCalledWith(`Parallelism: ${concurrency}\n`);
     spy.mockRestore();
   });
@@ -146,6 +262,14 @@ describe('runLint integration with parallelism flag', () => {
 
 // Integration test: CLI invocation
 describe('CLI invocation', () => {
+  let tmpDir: string;
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ifttt-cli-'));
+  });
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
   it('respects --parallelism flag in CLI (verbose)', () => {
     const { spawnSync } = require('child_process');
     const script = require('path').resolve(__dirname, '../dist/main.js');
@@ -179,10 +303,9 @@ describe('CLI invocation', () => {
   it('fails on invalid LINT pragma in source file', () => {
     const { spawnSync } = require('child_process');
     const fsSync = require('fs');
-    const os = require('os');
     const path = require('path');
     // Create a temp file with invalid pragma
-    const tmpFile = path.join(os.tmpdir(), `lint-invalid-${Date.now()}.ts`);
+    const tmpFile = path.join(tmpDir, `lint-invalid-${Date.now()}.ts`);
     fsSync.writeFileSync(tmpFile, '// LINT.IfChange()', 'utf-8');
     // Craft a diff that references the temp file
     const diff = [
@@ -203,10 +326,9 @@ describe('CLI invocation', () => {
   it('errors out on duplicate IfChange labels in diff mode', () => {
     const { spawnSync } = require('child_process');
     const fsSync = require('fs');
-    const osMod = require('os');
     const pathMod = require('path');
     // Create a temp file with two identical IfChange labels
-    const tmpFile = pathMod.join(osMod.tmpdir(), `dup-if-${Date.now()}.ts`);
+    const tmpFile = pathMod.join(tmpDir, `dup-if-${Date.now()}.ts`);
     fsSync.writeFileSync(tmpFile,
       `// LINT.IfChange("foo")\n// LINT.IfChange("foo")\n`, 'utf-8');
     const diff = [
@@ -224,13 +346,33 @@ describe('CLI invocation', () => {
     expect(result.status).toBe(1);
     expect(result.stdout).toMatch(/duplicate directive label 'foo'/);
   });
+  it('demotes errors with --warn and fails with exit code 3 past --max-warnings', () => {
+    const { spawnSync } = require('child_process');
+    const fsSync = require('fs');
+    const pathMod = require('path');
+    const tmpFile = pathMod.join(tmpDir, `warn-if-${Date.now()}.ts`);
+    fsSync.writeFileSync(tmpFile,
+      `// LINT.IfChange("foo")\n// LINT.IfChange("foo")\n`, 'utf-8');
+    const diff = [
+      `--- a/${tmpFile}`,
+      `+++ b/${tmpFile}`,
+      '@@ -1,2 +1,2 @@',
+      '// LINT.IfChange("foo")',
+      '// LINT.IfChange("foo")',
+    ].join('\n');
+    const script = pathMod.resolve(__dirname, '../dist/main.js');
+    const warned = spawnSync(process.execPath, [script, '--warn'], { input: diff, encoding: 'utf-8' });
+    expect(warned.status).toBe(0);
+    expect(warned.stdout).toMatch(/warning: duplicate directive label 'foo'/);
+    const limited = spawnSync(process.execPath, [script, '--warn', '--max-warnings', '0'], { input: diff, encoding: 'utf-8' });
+    expect(limited.status).toBe(3);
+  });
   it('errors out on Label and IfChange sharing the same name in diff mode', () => {
     const { spawnSync } = require('child_process');
     const fsSync = require('fs');
-    const osMod = require('os');
     const pathMod = require('path');
     // Create a temp file with a Label and an IfChange using same label
-    const tmpFile = pathMod.join(osMod.tmpdir(), `dup-mix-${Date.now()}.ts`);
+    const tmpFile = pathMod.join(tmpDir, `dup-mix-${Date.now()}.ts`);
     fsSync.writeFileSync(tmpFile,
       `// LINT.Label("foo")\n/* LINT.EndLabel */\n// LINT.IfChange("foo")\n`, 'utf-8');
     const diff = [
@@ -249,4 +391,108 @@ describe('CLI invocation', () => {
     expect(result.status).toBe(1);
     expect(result.stdout).toMatch(/duplicate directive label 'foo'/);
   });
-});
\ No newline at end of file
+  it('emits a JSON document with --format json', () => {
+    const { spawnSync } = require('child_process');
+    const fsSync = require('fs');
+    const pathMod = require('path');
+    const tmpFile = pathMod.join(tmpDir, `dup-json-${Date.now()}.ts`);
+    fsSync.writeFileSync(tmpFile,
+      `// LINT.IfChange("foo")\n// LINT.IfChange("foo")\n`, 'utf-8');
+    const diff = [
+      `--- a/${tmpFile}`,
+      `+++ b/${tmpFile}`,
+      '@@ -1,2 +1,2 @@',
+      '// LINT.IfChange("foo")',
+      '// LINT.IfChange("foo")',
+    ].join('\n');
+    const script = pathMod.resolve(__dirname, '../dist/main.js');
+    const result = spawnSync(process.execPath, [script, '--format', 'json', '-w'], {
+      input: diff,
+      encoding: 'utf-8'
+    });
+    expect(result.status).toBe(0);
+    const report = JSON.parse(result.stdout);
+    expect(report.mode).toBe('diff');
+    expect(report.exitCode).toBe(0);
+    expect(report.summary.byKind['duplicate-label']).toBe(1);
+    expect(report.diagnostics[0]).toMatchObject({
+      kind: 'duplicate-label',
+      file: tmpFile,
+      line: 2,
+      label: 'foo'
+    });
+  });
+  it('emits GitHub annotations and a job summary with --format github', () => {
+    const { spawnSync } = require('child_process');
+    const fsSync = require('fs');
+    const pathMod = require('path');
+    const tmpFile = pathMod.join(tmpDir, `dup-gh-${Date.now()}.ts`);
+    const summaryFile = pathMod.join(tmpDir, `gh-summary-${Date.now()}.md`);
+    fsSync.writeFileSync(tmpFile,
+      `// LINT.IfChange("foo")\n// LINT.IfChange("foo")\n`, 'utf-8');
+    const diff = [
+      `--- a/${tmpFile}`,
+      `+++ b/${tmpFile}`,
+      '@@ -1,2 +1,2 @@',
+      '// LINT.IfChange("foo")',
+      '// LINT.IfChange("foo")',
+    ].join('\n');
+    const script = pathMod.resolve(__dirname, '../dist/main.js');
+    const result = spawnSync(process.execPath, [script, '--format', 'github', '--warn'], {
+      input: diff,
+      encoding: 'utf-8',
+      env: { ...process.env, GITHUB_STEP_SUMMARY: summaryFile }
+    });
+    expect(result.status).toBe(0);
+    expect(result.stdout).toMatch(/^::warning file=.*,line=2,title=ifttt-lint \(duplicate-label\)::duplicate directive label 'foo'/);
+    const summary = fsSync.readFileSync(summaryFile, 'utf-8');
+    expect(summary).toContain('| warning |');
+  });
+  it('uses the default format from a config file given with --config', () => {
+    const { spawnSync } = require('child_process');
+    const fsSync = require('fs');
+    const pathMod = require('path');
+    const tmpFile = pathMod.join(tmpDir, `dup-config-${Date.now()}.ts`);
+    const configFile = pathMod.join(tmpDir, `config-${Date.now()}.json`);
+    fsSync.writeFileSync(tmpFile, `// LINT.IfChange("foo")\n// LINT.IfChange("foo")\n`, 'utf-8');
+    fsSync.writeFileSync(configFile, JSON.stringify({ format: 'json', severity: { '*': 'warning' } }));
+    const diff = [
+      `--- a/${tmpFile}`,
+      `+++ b/${tmpFile}`,
+      '@@ -1,2 +1,2 @@',
+      '// LINT.IfChange("foo")',
+      '// LINT.IfChange("foo")',
+    ].join('\n');
+    const script = pathMod.resolve(__dirname, '../dist/main.js');
+    const result = spawnSync(process.execPath, [script, '--config', configFile], { input: diff, encoding: 'utf-8' });
+    // Warnings do not fail the run
+    expect(result.status).toBe(0);
+    expect(JSON.parse(result.stdout).diagnostics[0]).toMatchObject({ kind: 'duplicate-label', severity: 'warning' });
+    // --format on the command line wins over the config
+    const text = spawnSync(process.execPath, [script, '--config', configFile, '-f', 'text'], { input: diff, encoding: 'utf-8' });
+    expect(text.stdout).toMatch(/-> warning: duplicate directive label 'foo'/);
+  });
+  it('reads ignore patterns from --ignore-file', () => {
+    const { spawnSync } = require('child_process');
+    const fsSync = require('fs');
+    const pathMod = require('path');
+    const tmpFile = pathMod.join(tmpDir, `dup-ignored-${Date.now()}.ts`);
+    const ignoreFile = pathMod.join(tmpDir, `iftttignore-${Date.now()}`);
+    fsSync.writeFileSync(tmpFile, `// LINT.IfChange("foo")\n// LINT.IfChange("foo")\n`, 'utf-8');
+    fsSync.writeFileSync(ignoreFile, `# skip duplicates\ndup-ignored-*.ts\n`, 'utf-8');
+    const diff = [
+      `--- a/${tmpFile}`,
+      `+++ b/${tmpFile}`,
+      '@@ -1,2 +1,2 @@',
+      '// LINT.IfChange("foo")',
+      '// LINT.IfChange("foo")',
+    ].join('\n');
+    const script = pathMod.resolve(__dirname, '../dist/main.js');
+    const result = spawnSync(process.execPath, [script, '--ignore-file', ignoreFile], { input: diff, encoding: 'utf-8' });
+    expect(result.status).toBe(0);
+    // A negated --ignore pattern re-includes the file
+    const negated = spawnSync(process.execPath, [script, '--ignore-file', ignoreFile, '-i', `!${pathMod.basename(tmpFile)}`], { input: diff, encoding: 'utf-8' });
+    expect(negated.status).toBe(1);
+  });
+});
+
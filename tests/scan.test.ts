@@ -24,7 +24,7 @@ describe('--scan mode validation', () => {
     await fs.writeFile(file, content, 'utf-8');
     // Use parallelism of 2
     const code = await runScan(dir, 2, true);
-    expect(code).toBe(1);
+    expect(code).not.toHaveLength(0);
   });
 
   it('detects duplicate Label directives in a file', async () => {
@@ -37,14 +37,16 @@ describe('--scan mode validation', () => {
     ].join('\n');
     await fs.writeFile(file, content, 'utf-8');
     const code = await runScan(dir, 2, true);
-    expect(code).toBe(1);
+    expect(code).not.toHaveLength(0);
   });
 
   it('passes when directives are unique', async () => {
     const file = path.join(dir, 'unique.ts');
     const content = [
       '// LINT.IfChange("a")',
+      '// LINT.ThenChange("unique.ts#y")',
       '// LINT.IfChange("b")',
+      '// LINT.ThenChange("unique.ts#a")',
       '// LINT.Label("x")',
       '/* LINT.EndLabel */',
       '// LINT.Label("y")',
@@ -52,6 +54,97 @@ describe('--scan mode validation', () => {
     ].join('\n');
     await fs.writeFile(file, content, 'utf-8');
     const code = await runScan(dir, 2, true);
-    expect(code).toBe(0);
+    expect(code).toHaveLength(0);
   });
-});
\ No newline at end of file
+
+  it('skips files matching ignore patterns', async () => {
+    const content = ['// LINT.Label("lbl")', '/* LINT.EndLabel */', '// LINT.Label("lbl")', '/* LINT.EndLabel */'].join('\n');
+    await fs.mkdir(path.join(dir, 'gen'));
+    await fs.writeFile(path.join(dir, 'gen', 'a.ts'), content, 'utf-8');
+    await fs.writeFile(path.join(dir, 'gen', 'b.ts'), content, 'utf-8');
+    expect(await runScan(dir, 1, false, { ignoreList: ['gen/'] })).toHaveLength(0);
+    const diagnostics = await runScan(dir, 1, false, { ignoreList: ['**/gen/**', '!b.ts'] });
+    expect(diagnostics.map(d => path.basename(d.file))).toEqual(['b.ts']);
+  });
+
+  it('validates //path targets against the repository root', async () => {
+    await fs.mkdir(path.join(dir, 'src'));
+    await fs.writeFile(path.join(dir, 'target.ts'), ['// LINT.Label("lbl")', '// LINT.EndLabel'].join('\n'), 'utf-8');
+    await fs.writeFile(path.join(dir, 'src', 'ok.ts'), [
+      '// LINT.IfChange',
+      '// LINT.ThenChange(["//target.ts", "//target.ts#lbl"])'
+    ].join('\n'), 'utf-8');
+    expect(await runScan(dir, 1, false, { root: dir })).toHaveLength(0);
+    await fs.writeFile(path.join(dir, 'src', 'bad.ts'), [
+      '// LINT.IfChange',
+      '// LINT.ThenChange(["//missing.ts", "//target.ts#nope"])'
+    ].join('\n'), 'utf-8');
+    const diagnostics = await runScan(dir, 1, false, { root: dir });
+    expect(diagnostics.map(d => [d.kind, d.target])).toEqual([
+      ['target-not-found', '//missing.ts'],
+      ['label-not-found', '//target.ts#nope']
+    ]);
+    expect(diagnostics[0].targetPath).toBe(path.join(dir, 'missing.ts'));
+  });
+
+  it('reports unpaired, nested and unbalanced directives', async () => {
+    await fs.writeFile(path.join(dir, 'pairs.ts'), [
+      '// LINT.ThenChange("pairs.ts")',
+      '// LINT.IfChange("a")',
+      '// LINT.IfChange("b")',
+      '// LINT.ThenChange(["pairs.ts#a", "pairs.ts#x"])',
+      '// LINT.EndLabel',
+      '// LINT.Label("x")',
+      '// LINT.IfChange("c")'
+    ].join('\n'), 'utf-8');
+    const diagnostics = await runScan(dir, 1, false);
+    expect(diagnostics.map(d => [d.kind, d.line])).toEqual([
+      ['orphan-then-change', 1],
+      ['nested-if-change', 3],
+      ['unbalanced-label', 5],
+      ['missing-then-change', 7],
+      ['unbalanced-label', 6]
+    ]);
+    // The labeled IfChange can be skipped with a file#label ignore pattern
+    const ignored = await runScan(dir, 1, false, { ignoreList: ['pairs.ts#c'] });
+    expect(ignored.map(d => d.kind)).toEqual(['orphan-then-change', 'nested-if-change', 'unbalanced-label', 'unbalanced-label']);
+  });
+
+  it('reports ThenChange targets whose file or label does not exist', async () => {
+    await fs.mkdir(path.join(dir, 'sub'));
+    await fs.writeFile(path.join(dir, 'sub', 'target.ts'), ['// LINT.Label("lbl")', '// LINT.EndLabel'].join('\n'), 'utf-8');
+    await fs.writeFile(path.join(dir, 'src.ts'), [
+      '// LINT.IfChange',
+      '// LINT.ThenChange(["sub/target.ts#lbl", "sub/gone.ts", "sub/target.ts#nope"])'
+    ].join('\n'), 'utf-8');
+    const diagnostics = await runScan(dir, 1, false);
+    expect(diagnostics.map(d => [d.kind, d.target])).toEqual([
+      ['target-not-found', 'sub/gone.ts'],
+      ['label-not-found', 'sub/target.ts#nope']
+    ]);
+    expect(diagnostics[1].message).toContain('Available labels: lbl');
+    expect(await runScan(dir, 1, false, { ignoreList: ['sub/gone.ts', 'sub/target.ts#nope'] })).toHaveLength(0);
+  });
+
+  it('reports NoCheck pragmas without a reason', async () => {
+    await fs.writeFile(path.join(dir, 'target.ts'), '// target\n', 'utf-8');
+    await fs.writeFile(path.join(dir, 'src.ts'), [
+      '// LINT.IfChange',
+      '// LINT.NoCheck',
+      '// LINT.ThenChange(["target.ts", "src.ts"])',
+      '// LINT.IfChange',
+      '// LINT.NoCheck("regenerated by the build")',
+      '// LINT.ThenChange("target.ts")'
+    ].join('\n'), 'utf-8');
+    const diagnostics = await runScan(dir, 1, false);
+    expect(diagnostics).toEqual([{
+      kind: 'no-check-without-reason',
+      file: path.join(dir, 'src.ts'),
+      line: 2,
+      target: 'target.ts',
+      thenLine: 3,
+      message: "LINT.NoCheck suppresses ThenChange 'target.ts' (line 3) without a reason; write LINT.NoCheck(\"reason\")",
+      severity: 'error'
+    }]);
+  });
+});